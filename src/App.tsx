@@ -1,9 +1,14 @@
-import { useCallback, useEffect, useRef, useState } from "react";
-import type { CSSProperties, PointerEvent as ReactPointerEvent } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type {
+  CSSProperties,
+  PointerEvent as ReactPointerEvent,
+  ReactNode,
+} from "react";
 import { css, keyframes } from "@emotion/react";
 import Color from "color";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { SVGLoader } from "three/examples/jsm/loaders/SVGLoader.js";
 
 import "@fontsource/fira-code/300.css";
 import "@fontsource/fira-code/400.css";
@@ -18,7 +23,7 @@ import {
   FaChevronDown,
   FaChevronUp,
 } from "react-icons/fa";
-import { Button, Div, H1, I, Input, Label, P } from "style-props-html";
+import { Button, Div, H1, I, Input, Label, P, Span } from "style-props-html";
 
 import "./App.css";
 
@@ -26,12 +31,40 @@ import EditorTab from "./components/EditorTab";
 import FileBrowser from "./components/FileBrowser";
 import useTabManager from "./hooks/useEditorTabAgent";
 import useFSAUnsupported from "./hooks/useFSAUnsupported";
-import { useRegisterOpenSCADLanguage } from "./openscad-lang";
-import { identifyParts, OpenSCADPart } from "./openscad-parsing";
+import useSyntaxCheck from "./hooks/useSyntaxCheck";
+import {
+  useOpenSCADLanguageFeatures,
+  useRegisterOpenSCADLanguage,
+} from "./openscad-lang";
+import useSourceIndex from "./hooks/useSourceIndex";
+import {
+  getPreservedSection,
+  identifyParts,
+  OpenSCADPart,
+} from "./openscad-parsing";
+import type { PartOptions } from "./openscad-parsing";
+import {
+  buildCustomizerDefines,
+  customizerValuesEqual,
+  parseCustomizerParameters,
+} from "./openscad-customizer";
+import type { CustomizerValue } from "./openscad-customizer";
+import CustomizerPanel from "./components/CustomizerPanel";
+import {
+  fromParameterSet,
+  loadParameterSets,
+  saveParameterSets,
+  toParameterSet,
+} from "./openscad-parameter-sets";
+import type { ParameterSets } from "./openscad-parameter-sets";
 import { createLabeledAxis, removeAxes } from "./AxisVisualizer";
 import { formatError } from "./utils/serialization";
 import ResizeSvgHelper from "./utils/ResizeSVGHelper";
 import ThreeViewer, { ThreeHandles } from "./components/ThreeViewer";
+import OpenSCADWorkerPool, {
+  defaultPoolSize,
+  RenderCancelledError,
+} from "./OpenSCADWorkerPool";
 import { collectImports } from "./utils/importUtils";
 import { subscribeUiLog } from "./utils/uiLogger";
 import {
@@ -39,22 +72,59 @@ import {
   getStoredDirectoryHandle,
   clearStoredDirectoryHandle,
   getFileHandleByPath,
+  saveFile,
   loadWorkspaceState,
   updateWorkspaceState,
   updateWorkspaceScrollPosition,
   updateWorkspaceCursorPosition,
+  updateWorkspaceFoldedRegions,
   updateWorkspaceSelections,
   updateWorkspaceOpenTabs,
   updateWorkspaceLastRender,
   updateWorkspaceCameraState,
   clearWorkspaceState,
+  getRenderCacheEntry,
+  putRenderCacheEntry,
+  clearRenderCache,
   warnOnce,
 } from "./utils/fsaUtils";
-import type { CameraState, PersistedModelEntry } from "./utils/fsaUtils";
+import type {
+  AutoRenderMode,
+  CameraState,
+  PersistedModelEntry,
+  RenderTranscript,
+} from "./utils/fsaUtils";
 import type { TabLoadData } from "./hooks/useEditorTabAgent";
+import type { RenderMode, RenderOutput } from "./openscad-protocol";
 import { saveVmDebugSnapshot } from "./utils/debugSnapshot";
 import { isScadFile, isBinaryFile } from "./utils/fileTypes";
 import { MAX_MODEL_PERSIST_BYTES } from "./utils/persistLimits";
+import { Tree } from "./utils/pathTree";
+import { computeRenderCacheKey, digestRenderFiles } from "./utils/renderCache";
+import { createThreeMF } from "./utils/threeMF";
+import { EXPORT_FORMATS, FORMATS_2D, FORMATS_3D } from "./utils/exportFormats";
+import type { ExportFormat } from "./utils/exportFormats";
+import type { ThreeMFPart } from "./utils/threeMF";
+import {
+  getRenderLimitKind,
+  resolveRenderLimits,
+} from "./utils/renderLimits";
+import type { BackendRenderLimits } from "./utils/renderLimits";
+import RenderLimitsEditor from "./components/RenderLimitsEditor";
+import ProblemsPanel from "./components/ProblemsPanel";
+import OutlinePanel from "./components/OutlinePanel";
+import Breadcrumbs from "./components/Breadcrumbs";
+import { buildOutline, outlinePath } from "./openscad-outline";
+import type { OutlineItem } from "./openscad-outline";
+import type { FileRewrite } from "./openscad-rename";
+import { diagnosticKey } from "./utils/openscadDiagnostics";
+import type { OpenSCADDiagnostic } from "./utils/openscadDiagnostics";
+import type { FileMarkers } from "./hooks/useEditorTabAgent";
+import {
+  RENDER_PHASE_LABELS,
+  renderPhaseFraction,
+} from "./utils/renderProgress";
+import type { RenderPhase } from "./utils/renderProgress";
 
 const resizeBarSVGHelper = new ResizeSvgHelper({
   arrowHeadWidth: 12,
@@ -83,12 +153,68 @@ const resizeBarStyle:CSSProperties = {
 };
 
 const MAX_MESSAGES: string | undefined = undefined;
+const AUTO_RENDER_DEBOUNCE_MS = 1500;
+const PREVIEW_OVERLAY_KEYS = ["highlight", "background"] as const;
 const WRITE_VM_DEBUG =
   typeof __WRITE_VM_DEBUG__ !== "undefined" && __WRITE_VM_DEBUG__;
-type OpenSCADPartWithSTL = OpenSCADPart & { stl?: Uint8Array };
-type PartSettings = { visible: boolean; exported: boolean };
+type OpenSCADPartWithSTL = OpenSCADPart & {
+  stl?: Uint8Array;
+  /** Format of `stl` when it isn't binary STL (2D parts are kept as SVG) */
+  format?: ExportFormat;
+  /** Preview renders only */
+  highlightStl?: Uint8Array;
+  backgroundStl?: Uint8Array;
+};
+type PartSettings = {
+  visible: boolean;
+  exported: boolean;
+  /** Enclosing //@group folders, outermost first */
+  group?: string[];
+  /** Render options from the part's marker line */
+  options?: PartOptions;
+};
+const groupKey = (group: string[]) => group.join("/");
+type PartRenderStatus =
+  | "pending"
+  | "done"
+  | "failed"
+  | "cancelled"
+  | "timeout"
+  | "memory";
+// Everything besides the part itself that a render of the active file needs
+type RenderInputs = {
+  backend: "Manifold" | "CGAL";
+  path: string;
+  extraFiles: Record<string, string | Uint8Array>;
+  externalImports: string[];
+  /** Customizer overrides */
+  defines?: Record<string, string>;
+};
 type PaneLayout = { fileBrowser: number; editor: number; viewer: number };
 
+const PART_STATUS_LABELS: Record<PartRenderStatus, string> = {
+  // Progress takes over the label once a worker picks the part up
+  pending: "queued",
+  done: "done",
+  failed: "failed",
+  cancelled: "cancelled",
+  timeout: "timed out",
+  memory: "out of memory",
+};
+
+const AUTO_RENDER_STATUS_LABELS = {
+  idle: "up to date",
+  scheduled: "waiting…",
+  rendering: "rendering…",
+  failed: "last auto-render failed",
+};
+const AUTO_RENDER_STATUS_COLORS = {
+  idle: "#4caf50",
+  scheduled: "#f9a825",
+  rendering: "#1e88e5",
+  failed: "#b00020",
+};
+
 const MIN_PANE_FRAC: PaneLayout = {
   fileBrowser: 0.2,
   editor: 0.2,
@@ -169,7 +295,13 @@ function getColorOrDefault(
   defaultColor = 0xff00ff
 ): number {
   if (!colorString) return defaultColor;
-  const color = Color(colorString);
+  let color;
+  try {
+    color = Color(colorString);
+  } catch {
+    // e.g. a typo in a marker's color= option
+    return defaultColor;
+  }
   const { r, g, b, a } = {
     r: color.red(),
     g: color.green(),
@@ -192,12 +324,136 @@ function traverseSyncChildrenFirst(
   callback(node);
 }
 
+// Same look as OpenSCAD's own preview: `#` translucent red, `%` translucent gray
+const PREVIEW_OVERLAY_STYLES = {
+  highlightStl: { color: 0xff0000, opacity: 0.4 },
+  backgroundStl: { color: 0x808080, opacity: 0.25 },
+};
+
+/**
+ * Flat geometry for a 2D part exported by OpenSCAD as SVG.
+ */
+function buildSvgGeometry(svg: Uint8Array): THREE.BufferGeometry {
+  const data = new SVGLoader().parse(new TextDecoder().decode(svg));
+  const shapes = data.paths.flatMap((path) => SVGLoader.createShapes(path));
+  const geom = new THREE.ShapeGeometry(shapes);
+  // OpenSCAD flips y so the drawing is upright in SVG coordinates
+  geom.scale(1, -1, 1);
+  return geom;
+}
+
+/**
+ * Parse a part's STL into a mesh and add it to the parts group. Preview
+ * overlays become children of that mesh so they share its name and
+ * visibility.
+ */
+function addPartMesh(
+  three: ThreeHandles,
+  name: string,
+  part: OpenSCADPartWithSTL
+): THREE.Mesh | null {
+  if (!part.stl) return null;
+  try {
+    const flat = part.format === "svg";
+    const geom = flat
+      ? buildSvgGeometry(part.stl)
+      : three.loader.parse(copySharedBufferToArrayBuffer(part.stl.buffer));
+    geom.rotateX(-Math.PI / 2);
+    const mat = new THREE.MeshPhongMaterial({
+      color: getColorOrDefault(part.color),
+      side: flat ? THREE.DoubleSide : THREE.FrontSide,
+    });
+    const mesh = new THREE.Mesh(geom, mat);
+    mesh.name = name;
+    mesh.castShadow = mesh.receiveShadow = true;
+    for (const key of ["highlightStl", "backgroundStl"] as const) {
+      const overlayStl = part[key];
+      if (!overlayStl?.byteLength) continue;
+      const overlayGeom = three.loader.parse(
+        copySharedBufferToArrayBuffer(overlayStl.buffer)
+      );
+      overlayGeom.rotateX(-Math.PI / 2);
+      const overlay = new THREE.Mesh(
+        overlayGeom,
+        new THREE.MeshPhongMaterial({
+          ...PREVIEW_OVERLAY_STYLES[key],
+          transparent: true,
+          depthWrite: false,
+        })
+      );
+      overlay.name = name;
+      mesh.add(overlay);
+    }
+    three.partsGroup.add(mesh);
+    return mesh;
+  } catch {
+    // ignored
+    return null;
+  }
+}
+
+/**
+ * Remove old axes and add new axes sized to bounding box (1.5× max dimension), with ticks every 5 units
+ */
+function rebuildAxes(scene: THREE.Scene) {
+  removeAxes(scene);
+  const bbox = new THREE.Box3();
+  traverseSyncChildrenFirst(scene, (node) => {
+    if (node instanceof THREE.Mesh && !node.userData.keep) {
+      bbox.expandByObject(node);
+    }
+  });
+  if (bbox.isEmpty()) return;
+  const size = new THREE.Vector3();
+  bbox.getSize(size);
+  const maxDim = Math.max(size.x, size.y, size.z);
+  const axisLength = (maxDim / 2) * 1.5;
+  const addAxis = (
+    dir: THREE.Vector3,
+    mainColor: THREE.Color,
+    tickColor: THREE.Color,
+    label: string,
+    offset: THREE.Vector3
+  ) => {
+    createLabeledAxis({
+      scene,
+      direction: dir,
+      length: axisLength,
+      tickSpacing: 5,
+      mainLineColor: mainColor,
+      tickColor,
+      labelText: label,
+      labelFontSize: 4,
+      labelOffset: offset,
+      name: "__AXIS_" + label,
+      visible: true,
+    });
+  };
+  [
+    { dir: new THREE.Vector3(1, 0, 0), color: 0xff0000, label: "+X" },
+    { dir: new THREE.Vector3(0, 0, -1), color: 0x00ff00, label: "+Y" },
+    { dir: new THREE.Vector3(0, 1, 0), color: 0x0000ff, label: "+Z" },
+    { dir: new THREE.Vector3(-1, 0, 0), color: 0xffff00, label: "-X" },
+    { dir: new THREE.Vector3(0, 0, 1), color: 0x00ffff, label: "-Y" },
+    { dir: new THREE.Vector3(0, -1, 0), color: 0xff00ff, label: "-Z" },
+  ].forEach(({ dir, color, label }) =>
+    addAxis(
+      dir,
+      new THREE.Color(color),
+      new THREE.Color(0x000000),
+      label,
+      new THREE.Vector3(0, 5, 0)
+    )
+  );
+}
+
 export default function App() {
   useRegisterOpenSCADLanguage();
   const fsaUnsupported = useFSAUnsupported();
 
   const consoleDivRef = useRef<HTMLDivElement>(null);
   const [messages, setMessages] = useState<string[]>([]);
+  const [diagnostics, setDiagnostics] = useState<OpenSCADDiagnostic[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [renderedAtLeastOnce, setRenderedAtLeastOnce] = useState(false);
   const [partsPanelOpen, setPartsPanelOpen] = useState(true);
@@ -205,10 +461,45 @@ export default function App() {
   const [partSettings, setPartSettings] = useState<
     Record<string, PartSettings>
   >({});
+  // For parts that stream in after the user changed visibility mid-render
+  const partSettingsRef = useRef(partSettings);
+  partSettingsRef.current = partSettings;
+  // Group folders whose parts are left out of renders and exports
+  const [disabledGroups, setDisabledGroups] = useState<Record<string, true>>(
+    {}
+  );
+  const isGroupEnabled = (group: string[] = []) =>
+    group.every((_, i) => !disabledGroups[groupKey(group.slice(0, i + 1))]);
+  const [partStatuses, setPartStatuses] = useState<
+    Record<string, PartRenderStatus>
+  >({});
+  const setPartStatus = (name: string, status: PartRenderStatus) =>
+    setPartStatuses((prev) => ({ ...prev, [name]: status }));
+  const [partProgress, setPartProgress] = useState<
+    Record<string, RenderPhase>
+  >({});
+  // The ref is read inside running renders, the state drives the button
+  const cancelRequestedRef = useRef(false);
+  const [cancelRequested, setCancelRequested] = useState(false);
   const [lastRenderedFile, setLastRenderedFile] = useState<string | null>(null);
+  const [renderConcurrency, setRenderConcurrency] = useState<number | null>(
+    null
+  );
+  // Customizer overrides per file path; the files themselves stay untouched
+  const [customizerOverrides, setCustomizerOverrides] = useState<
+    Record<string, Record<string, CustomizerValue>>
+  >({});
+  const [downloadFormats, setDownloadFormats] = useState<
+    Record<2 | 3, ExportFormat>
+  >({ 3: "binstl", 2: "svg" });
+  const [renderLimits, setRenderLimits] = useState<BackendRenderLimits>(() =>
+    resolveRenderLimits()
+  );
   const [lastRenderedBackend, setLastRenderedBackend] = useState<
     "Manifold" | "CGAL" | null
   >(null);
+  // Preview, F5 and F6 use the backend the last render ran on
+  const previewBackend = lastRenderedBackend ?? "Manifold";
   const pendingRestoreRef = useRef<{
     file: string;
     backend: "Manifold" | "CGAL";
@@ -216,9 +507,22 @@ export default function App() {
     models: PersistedModelEntry[];
   } | null>(null);
 
+  const [autoRenderMode, setAutoRenderMode] = useState<AutoRenderMode>("off");
+  const [autoRenderStatus, setAutoRenderStatus] = useState<
+    "idle" | "scheduled" | "rendering" | "failed"
+  >("idle");
+  // Re-pointed every render so the tab manager's save callback sees fresh state
+  const autoRenderOnSaveRef = useRef<(filePath: string) => void>(() => {});
+  const [formatOnSave, setFormatOnSave] = useState(false);
+  // Line of the cursor, for the outline and breadcrumbs
+  const [cursorLine, setCursorLine] = useState({ path: "", line: 1 });
+  const pendingAutoRenderRef = useRef(false);
+  const autoRenderTimeoutRef = useRef<number | null>(null);
+
   const scrollSaveTimeoutRef = useRef<number | null>(null);
   const cursorSaveTimeoutRef = useRef<number | null>(null);
   const selectionSaveTimeoutRef = useRef<number | null>(null);
+  const foldingSaveTimeoutRef = useRef<number | null>(null);
   const tabManager = useTabManager({
     onScrollChange: (filePath, scrollTop) => {
       if (!projectHandle || !workspaceLoaded) return;
@@ -230,6 +534,11 @@ export default function App() {
       }, 200);
     },
     onCursorChange: (filePath, lineNumber, column) => {
+      setCursorLine((prev) =>
+        prev.path === filePath && prev.line === lineNumber
+          ? prev
+          : { path: filePath, line: lineNumber }
+      );
       if (!projectHandle || !workspaceLoaded) return;
       if (cursorSaveTimeoutRef.current) {
         window.clearTimeout(cursorSaveTimeoutRef.current);
@@ -252,6 +561,17 @@ export default function App() {
         updateWorkspaceSelections(projectHandle.name, filePath, selections);
       }, 200);
     },
+    onFoldingChange: (filePath, regions) => {
+      if (!projectHandle || !workspaceLoaded) return;
+      if (foldingSaveTimeoutRef.current) {
+        window.clearTimeout(foldingSaveTimeoutRef.current);
+      }
+      foldingSaveTimeoutRef.current = window.setTimeout(() => {
+        updateWorkspaceFoldedRegions(projectHandle.name, filePath, regions);
+      }, 200);
+    },
+    onSave: (filePath) => autoRenderOnSaveRef.current(filePath),
+    formatOnSave,
   });
   const layoutSaveTimeoutRef = useRef<number | null>(null);
   const editorContainerRef = useRef<HTMLDivElement>(null);
@@ -397,6 +717,7 @@ export default function App() {
               scrollTop: state.scrollPositions?.[entry.path],
               cursorPosition: state.cursorPositions?.[entry.path],
               selections: state.selections?.[entry.path],
+              foldedRegions: state.foldedRegions?.[entry.path],
             });
           } catch {
             failedPaths.push(entry.path);
@@ -429,6 +750,20 @@ export default function App() {
         }
       }
 
+      setAutoRenderMode(
+        state.autoRender === "save" || state.autoRender === "typing"
+          ? state.autoRender
+          : "off"
+      );
+      setFormatOnSave(state.formatOnSave === true);
+      setRenderConcurrency(
+        typeof state.renderConcurrency === "number" &&
+          state.renderConcurrency >= 1
+          ? state.renderConcurrency
+          : null
+      );
+      setRenderLimits(resolveRenderLimits(state.renderLimits));
+
       // Queue persisted render restore (applied once Three.js scene is ready)
       if (state.lastRender && state.lastRender.models.length > 0) {
         pendingRestoreRef.current = state.lastRender;
@@ -473,10 +808,12 @@ export default function App() {
       window.clearTimeout(tabsSaveTimeoutRef.current);
     }
     tabsSaveTimeoutRef.current = window.setTimeout(() => {
+      // Read-only library tabs aren't restored
+      const persisted = tabManager.tabs.filter((t) => !t.readOnly);
       updateWorkspaceOpenTabs(
         projectHandle.name,
-        tabManager.tabs.map((t) => ({ path: t.filePath, isPreview: t.isPreview })),
-        tabManager.activeTabIndex
+        persisted.map((t) => ({ path: t.filePath, isPreview: t.isPreview })),
+        persisted.indexOf(tabManager.tabs[tabManager.activeTabIndex])
       );
     }, 200);
     return () => {
@@ -629,81 +966,28 @@ export default function App() {
     }
   };
 
-  const updateThreeScene = () => {
+  /**
+   * Called once every part of a render has streamed in.
+   */
+  const finishThreeScene = () => {
     const three = threeObjectsRef.current!;
-    const { loader, partsGroup, scene } = three;
-    partsGroup.clear();
-    Object.entries(completedModelRef.current).forEach(([name, part]) => {
-      if (!part.stl) return;
-      try {
-        const geom = loader.parse(
-          copySharedBufferToArrayBuffer(part.stl.buffer)
-        );
-        geom.rotateX(-Math.PI / 2);
-        const mat = new THREE.MeshPhongMaterial({
-          color: getColorOrDefault(part.color),
-        });
-        const mesh = new THREE.Mesh(geom, mat);
-        mesh.name = name;
-        mesh.castShadow = mesh.receiveShadow = true;
-        partsGroup.add(mesh);
-      } catch {
-        // ignored
-      }
-    });
     if (!renderedAtLeastOnce) goToDefaultView();
+    rebuildAxes(three.scene);
+  };
 
-    // Remove old axes and add new axes sized to bounding box (1.5× max dimension), with ticks every 5 units
-    removeAxes(scene);
-    const bbox = new THREE.Box3();
-    traverseSyncChildrenFirst(scene, (node) => {
-      if (node instanceof THREE.Mesh && !node.userData.keep) {
-        bbox.expandByObject(node);
-      }
-    });
-    if (!bbox.isEmpty()) {
-      const size = new THREE.Vector3();
-      bbox.getSize(size);
-      const maxDim = Math.max(size.x, size.y, size.z);
-      const axisLength = (maxDim / 2) * 1.5;
-      const addAxis = (
-        dir: THREE.Vector3,
-        mainColor: THREE.Color,
-        tickColor: THREE.Color,
-        label: string,
-        offset: THREE.Vector3
-      ) => {
-        createLabeledAxis({
-          scene,
-          direction: dir,
-          length: axisLength,
-          tickSpacing: 5,
-          mainLineColor: mainColor,
-          tickColor,
-          labelText: label,
-          labelFontSize: 4,
-          labelOffset: offset,
-          name: "__AXIS_" + label,
-          visible: true,
-        });
-      };
-      [
-        { dir: new THREE.Vector3(1, 0, 0), color: 0xff0000, label: "+X" },
-        { dir: new THREE.Vector3(0, 0, -1), color: 0x00ff00, label: "+Y" },
-        { dir: new THREE.Vector3(0, 1, 0), color: 0x0000ff, label: "+Z" },
-        { dir: new THREE.Vector3(-1, 0, 0), color: 0xffff00, label: "-X" },
-        { dir: new THREE.Vector3(0, 0, 1), color: 0x00ffff, label: "-Y" },
-        { dir: new THREE.Vector3(0, -1, 0), color: 0xff00ff, label: "-Z" },
-      ].forEach(({ dir, color, label }) =>
-        addAxis(
-          dir,
-          new THREE.Color(color),
-          new THREE.Color(0x000000),
-          label,
-          new THREE.Vector3(0, 5, 0)
-        )
-      );
-    }
+  /**
+   * Add (or replace) a single finished part in the scene while the rest of
+   * the render is still in flight.
+   */
+  const streamPartIntoScene = (name: string) => {
+    const three = threeObjectsRef.current;
+    const part = completedModelRef.current[name];
+    if (!three || !part) return;
+    three.partsGroup.getObjectByName(name)?.removeFromParent();
+    const mesh = addPartMesh(three, name, part);
+    // Parts new to this render aren't in the settings until it re-renders
+    if (mesh) mesh.visible = partSettingsRef.current[name]?.visible ?? true;
+    rebuildAxes(three.scene);
   };
 
   const onThreeReady = useCallback(() => {
@@ -718,7 +1002,10 @@ export default function App() {
         ownSourceCode: "",
         exported: m.exported,
         color: m.color,
+        group: m.group,
+        options: m.options,
         stl: new Uint8Array(m.stl),
+        format: m.format,
       };
     }
     completedModelRef.current = rebuilt;
@@ -729,84 +1016,25 @@ export default function App() {
     // Rebuild part settings
     const ps: Record<string, PartSettings> = {};
     for (const m of restore.models) {
-      ps[m.name] = { visible: true, exported: m.exported };
+      ps[m.name] = {
+        visible: true,
+        exported: m.exported,
+        group: m.group,
+        options: m.options,
+      };
     }
     setPartSettings(ps);
 
     // Build the scene (without goToDefaultView — we'll restore camera manually)
     const three = threeObjectsRef.current;
     if (!three) return;
-    const { loader, partsGroup, scene } = three;
-    partsGroup.clear();
-    Object.entries(rebuilt).forEach(([name, part]) => {
-      if (!part.stl) return;
-      try {
-        const geom = loader.parse(
-          copySharedBufferToArrayBuffer(part.stl.buffer)
-        );
-        geom.rotateX(-Math.PI / 2);
-        const mat = new THREE.MeshPhongMaterial({
-          color: getColorOrDefault(part.color),
-        });
-        const mesh = new THREE.Mesh(geom, mat);
-        mesh.name = name;
-        mesh.castShadow = mesh.receiveShadow = true;
-        partsGroup.add(mesh);
-      } catch {
-        // ignored
-      }
-    });
+    three.partsGroup.clear();
+    Object.entries(rebuilt).forEach(([name, part]) =>
+      addPartMesh(three, name, part)
+    );
 
     // Restore axes
-    removeAxes(scene);
-    const bbox = new THREE.Box3();
-    traverseSyncChildrenFirst(scene, (node) => {
-      if (node instanceof THREE.Mesh && !node.userData.keep)
-        bbox.expandByObject(node);
-    });
-    if (!bbox.isEmpty()) {
-      const size = new THREE.Vector3();
-      bbox.getSize(size);
-      const maxDim = Math.max(size.x, size.y, size.z);
-      const axisLength = (maxDim / 2) * 1.5;
-      const addAxis = (
-        dir: THREE.Vector3,
-        mainColor: THREE.Color,
-        tickColor: THREE.Color,
-        label: string,
-        offset: THREE.Vector3
-      ) => {
-        createLabeledAxis({
-          scene,
-          direction: dir,
-          length: axisLength,
-          tickSpacing: 5,
-          mainLineColor: mainColor,
-          tickColor,
-          labelText: label,
-          labelFontSize: 4,
-          labelOffset: offset,
-          name: "__AXIS_" + label,
-          visible: true,
-        });
-      };
-      [
-        { dir: new THREE.Vector3(1, 0, 0), color: 0xff0000, label: "+X" },
-        { dir: new THREE.Vector3(0, 0, -1), color: 0x00ff00, label: "+Y" },
-        { dir: new THREE.Vector3(0, 1, 0), color: 0x0000ff, label: "+Z" },
-        { dir: new THREE.Vector3(-1, 0, 0), color: 0xffff00, label: "-X" },
-        { dir: new THREE.Vector3(0, 0, 1), color: 0x00ffff, label: "-Y" },
-        { dir: new THREE.Vector3(0, -1, 0), color: 0xff00ff, label: "-Z" },
-      ].forEach(({ dir, color, label }) =>
-        addAxis(
-          dir,
-          new THREE.Color(color),
-          new THREE.Color(0x000000),
-          label,
-          new THREE.Vector3(0, 5, 0)
-        )
-      );
-    }
+    rebuildAxes(three.scene);
 
     // Restore camera + orbit controls
     const cam = restore.camera;
@@ -900,170 +1128,759 @@ export default function App() {
     });
   }, [log]);
 
-  const renderPartInWorker = (
+  // Long-lived workers with warm OpenSCAD instances, created on first render
+  const renderPoolRef = useRef<OpenSCADWorkerPool | null>(null);
+  const effectiveConcurrency = renderConcurrency ?? defaultPoolSize();
+  const getRenderPool = () => {
+    if (!renderPoolRef.current)
+      renderPoolRef.current = new OpenSCADWorkerPool(effectiveConcurrency);
+    return renderPoolRef.current;
+  };
+
+  useEffect(() => {
+    renderPoolRef.current?.resize(effectiveConcurrency);
+  }, [effectiveConcurrency]);
+
+  useEffect(() => {
+    return () => {
+      renderPoolRef.current?.terminate();
+      renderPoolRef.current = null;
+    };
+  }, []);
+
+  const changeRenderConcurrency = (value: number | null) => {
+    setRenderConcurrency(value);
+    if (projectHandle) {
+      updateWorkspaceState(projectHandle.name, { renderConcurrency: value });
+    }
+  };
+
+  const changeRenderLimits = (limits: BackendRenderLimits) => {
+    setRenderLimits(limits);
+    if (projectHandle) {
+      updateWorkspaceState(projectHandle.name, { renderLimits: limits });
+    }
+  };
+
+  const limitsFor = (backend: "Manifold" | "CGAL") => {
+    const { timeoutSeconds, maxHeapGrowthMB } = renderLimits[backend];
+    return {
+      timeoutMs: timeoutSeconds ? timeoutSeconds * 1000 : undefined,
+      maxHeapGrowthBytes: maxHeapGrowthMB
+        ? maxHeapGrowthMB * 1024 * 1024
+        : undefined,
+    };
+  };
+
+  const addDiagnostic = (diagnostic: OpenSCADDiagnostic) =>
+    setDiagnostics((prev) =>
+      prev.some((d) => diagnosticKey(d) === diagnosticKey(diagnostic))
+        ? prev
+        : [...prev, diagnostic]
+    );
+
+  /** Renders a part, recording what OpenSCAD prints into `transcript` */
+  const renderPartInWorker = async (
     name: string,
     part: OpenSCADPart,
-    backend: "Manifold" | "CGAL",
-    path: string,
-    extraFiles: Record<string, string | Uint8Array>,
-    externalImports: string[]
-  ) =>
-    new Promise<void>((resolve, reject) => {
-      const w = new Worker(new URL("./openscad.worker.ts", import.meta.url), {
-        type: "module",
-      });
-      w.onmessage = (e) => {
-        if (e.data.type === "log") log(`[${name}] ${e.data.message}`);
-        else if (e.data.type === "debugfs") {
-          if (!WRITE_VM_DEBUG) return;
-          if (!projectHandle || fsaUnsupported) {
-            log(`[${name}] Debug snapshot skipped (no project handle).`);
-            return;
-          }
-          saveVmDebugSnapshot(projectHandle, name, e.data.snapshot).catch(
-            (err) =>
-              log(
-                `[${name}] Failed to write debug snapshot: ${formatError(err)}`
-              )
-          );
-        } else if (e.data.type === "result") {
-          completedModelRef.current[name] = { ...part, stl: e.data.stl };
-          log(`Rendered "${name}"`);
-          w.terminate();
-          resolve();
-        } else if (e.data.type === "error") {
-          log(`Error: ${formatError(e.data.error)}`);
-          w.terminate();
-          reject(e.data.error);
+    mode: RenderMode,
+    inputs: RenderInputs,
+    transcript?: RenderTranscript
+  ) => {
+    try {
+      const output = await getRenderPool().render(
+        {
+          partName: name,
+          part,
+          mode,
+          ...inputs,
+          ...limitsFor(inputs.backend),
+        },
+        {
+          onLog: (message, fromOpenSCAD) => {
+            if (fromOpenSCAD) transcript?.log.push(message);
+            log(`[${name}] ${message}`);
+          },
+          onProgress: (phase) =>
+            setPartProgress((prev) => ({ ...prev, [name]: phase })),
+          onDiagnostic: (diagnostic) => {
+            transcript?.diagnostics.push(diagnostic);
+            addDiagnostic(diagnostic);
+          },
+          onDebugFs: (snapshot) => {
+            if (!WRITE_VM_DEBUG) return;
+            if (!projectHandle || fsaUnsupported) {
+              log(`[${name}] Debug snapshot skipped (no project handle).`);
+              return;
+            }
+            saveVmDebugSnapshot(projectHandle, name, snapshot).catch((err) =>
+              log(`[${name}] Failed to write debug snapshot: ${formatError(err)}`)
+            );
+          },
         }
-      };
-      w.onerror = (err) => {
-        log(`Worker error: ${err.message}`);
-        w.terminate();
-        reject(err);
-      };
-      w.postMessage({
-        command: "render",
-        partName: name,
-        part,
-        backend,
-        path,
-        extraFiles,
-        externalImports,
+      );
+      completedModelRef.current[name] = toCompletedPart(part, output);
+      setPartStatus(name, "done");
+      log(`Rendered "${name}"`);
+      return output;
+    } catch (err) {
+      const limit = getRenderLimitKind(err);
+      if (err instanceof RenderCancelledError) {
+        setPartStatus(name, "cancelled");
+      } else if (limit) {
+        setPartStatus(name, limit);
+        log(`[${name}] ${(err as { message?: string }).message}`);
+      } else {
+        setPartStatus(name, "failed");
+        log(`Error: ${formatError(err)}`);
+      }
+      throw err;
+    }
+  };
+
+  // Show render problems as markers on the matching tabs
+  const { setMarkers } = tabManager;
+  useSyntaxCheck(tabManager.filePath, tabManager.code, setMarkers);
+  const sourceIndex = useSourceIndex(projectHandle, tabManager.tabs);
+  useEffect(() => {
+    const markers: FileMarkers = {};
+    for (const { file, line, severity, message } of diagnostics) {
+      if (!file || line === undefined) continue;
+      (markers[file] ??= []).push({
+        severity,
+        message,
+        startLineNumber: line,
       });
+    }
+    setMarkers("openscad-render", markers);
+  }, [diagnostics, setMarkers]);
+
+  // Project files open normally, library files (/SFLibs/...) read-only
+  const openSourceLocation = async (
+    path: string,
+    lineNumber: number,
+    column = 1
+  ) => {
+    try {
+      if (path.startsWith("/")) {
+        const file = await sourceIndex.getFile(path);
+        if (!file) throw new Error(`File not found: ${path}`);
+        tabManager.openReadOnly(path, file.text, lineNumber, column);
+        return;
+      }
+      if (!projectHandle) return;
+      const handle = await getFileHandleByPath(projectHandle, path);
+      if (!handle) throw new Error(`File not found: ${path}`);
+      await tabManager.openFileAt(handle, path, lineNumber, column);
+    } catch (err) {
+      log(`Failed to open ${path}: ${formatError(err)}`);
+    }
+  };
+
+  const openDiagnostic = ({ file, line }: OpenSCADDiagnostic) => {
+    if (file && line !== undefined) openSourceLocation(file, line);
+  };
+
+  // A rename changes open tabs like an edit would; files that aren't open
+  // are listed for the user and saved only once they agree
+  const applyRenameRewrites = async (rewrites: FileRewrite[]) => {
+    const open = new Set(tabManager.tabs.map((t) => t.filePath));
+    const closed = rewrites.filter((r) => !open.has(r.path));
+    if (closed.length) {
+      if (!projectHandle) return false;
+      const list = closed
+        .map(({ path, ranges }) => {
+          const count = ranges.length;
+          return `  ${path} (${count} ${count === 1 ? "change" : "changes"})`;
+        })
+        .join("\n");
+      if (
+        !confirm(
+          `The rename also changes these files, which will be saved:\n\n${list}`
+        )
+      ) {
+        return false;
+      }
+    }
+    for (const { path, text } of rewrites) {
+      if (open.has(path)) tabManager.setTabCode(path, text);
+    }
+    for (const { path, text } of closed) {
+      const handle = await getFileHandleByPath(projectHandle!, path);
+      if (!handle || !(await saveFile(handle, text))) {
+        log(`Failed to write ${path}`);
+      }
+    }
+    return true;
+  };
+
+  useOpenSCADLanguageFeatures({
+    index: sourceIndex,
+    filePath: tabManager.filePath,
+    openLocation: openSourceLocation,
+    applyRewrites: applyRenameRewrites,
+  });
+
+  const outline = useMemo(() => {
+    const path = tabManager.filePath;
+    if (!path || !isScadFile(path)) return null;
+    return buildOutline(sourceIndex.indexText(path, tabManager.code));
+  }, [sourceIndex, tabManager.filePath, tabManager.code]);
+  const outlineTrail =
+    outline && cursorLine.path === tabManager.filePath
+      ? outlinePath(outline, cursorLine.line)
+      : [];
+
+  const revealOutlineItem = ({ selectionRange }: OutlineItem) => {
+    tabManager.setCursorPosition(
+      selectionRange.startLine,
+      selectionRange.startColumn
+    );
+    tabManager.focusEditor();
+  };
+
+  const toCompletedPart = (
+    part: OpenSCADPart,
+    { data, format, highlight, background }: RenderOutput
+  ): OpenSCADPartWithSTL => ({
+    ...part,
+    stl: data,
+    format: format === "binstl" ? undefined : format,
+    highlightStl: highlight,
+    backgroundStl: background,
+  });
+
+  // Session copy of the IndexedDB render cache, keyed by content hash
+  const renderCacheRef = useRef(
+    new Map<string, { output: RenderOutput; transcript: RenderTranscript }>()
+  );
+  // Parts render in parallel, but their cache writes run one at a time so
+  // each eviction pass sees the store the previous one left
+  const renderCacheWritesRef = useRef<Promise<void>>(Promise.resolve());
+  const storeRenderCacheEntry = (
+    ...args: Parameters<typeof putRenderCacheEntry>
+  ) => {
+    const write = renderCacheWritesRef.current.then(() =>
+      putRenderCacheEntry(...args)
+    );
+    renderCacheWritesRef.current = write;
+    return write;
+  };
+  useEffect(() => {
+    renderCacheRef.current = new Map();
+  }, [projectHandle]);
+
+  /**
+   * Reuse a cached STL when the part's inputs are unchanged, otherwise render
+   * it and remember the result.
+   */
+  const renderPartCached = async (
+    name: string,
+    part: OpenSCADPart,
+    mode: RenderMode,
+    inputs: RenderInputs,
+    filesDigest: string
+  ) => {
+    const hash = await computeRenderCacheKey({
+      source: part.ownSourceCode,
+      backend: inputs.backend,
+      mode,
+      defines: inputs.defines,
+      filesDigest,
     });
+    // Preview overlays are stored next to the part under derived keys; an
+    // empty entry records that the part has no such overlay.
+    const overlayKeys = mode === "preview" ? PREVIEW_OVERLAY_KEYS : [];
+    let cached = renderCacheRef.current.get(hash) ?? null;
+    if (!cached && projectHandle) {
+      const stored = await Promise.all(
+        [hash, ...overlayKeys.map((k) => `${hash}:${k}`)].map((key) =>
+          getRenderCacheEntry(projectHandle.name, key)
+        )
+      );
+      if (stored.every(Boolean)) {
+        const [data, ...overlays] = stored.map((e) => new Uint8Array(e!.stl));
+        const output: RenderOutput = {
+          data,
+          format: stored[0]!.format ?? "binstl",
+        };
+        overlayKeys.forEach((k, i) => {
+          if (overlays[i].byteLength) output[k] = overlays[i];
+        });
+        cached = {
+          output,
+          transcript: stored[0]!.transcript ?? { log: [], diagnostics: [] },
+        };
+        renderCacheRef.current.set(hash, cached);
+      }
+    }
+    if (cached) {
+      completedModelRef.current[name] = toCompletedPart(part, cached.output);
+      setPartStatus(name, "done");
+      log(`[${name}] Inputs unchanged, reusing cached render.`);
+      // Warnings still hold for the unchanged source, so show them again
+      for (const message of cached.transcript.log) {
+        log(`[${name}] ${message}`);
+      }
+      cached.transcript.diagnostics.forEach(addDiagnostic);
+      return;
+    }
+    if (cancelRequestedRef.current) {
+      setPartStatus(name, "cancelled");
+      throw new RenderCancelledError(name);
+    }
+    const transcript: RenderTranscript = { log: [], diagnostics: [] };
+    const output = await renderPartInWorker(
+      name,
+      part,
+      mode,
+      inputs,
+      transcript
+    );
+    renderCacheRef.current.set(hash, { output, transcript });
+    if (projectHandle) {
+      // Overlays first, so a stored part always has its overlays too
+      for (const k of overlayKeys) {
+        await storeRenderCacheEntry(
+          projectHandle.name,
+          `${hash}:${k}`,
+          copySharedBufferToArrayBuffer((output[k] ?? new Uint8Array()).buffer)
+        );
+      }
+      await storeRenderCacheEntry(
+        projectHandle.name,
+        hash,
+        copySharedBufferToArrayBuffer(output.data.buffer),
+        output.format === "binstl" ? undefined : output.format,
+        transcript
+      );
+    }
+  };
+
+  /**
+   * Persist model + camera state to IndexedDB (all-or-nothing)
+   */
+  const persistLastRender = (backend: "Manifold" | "CGAL") => {
+    if (!projectHandle) return;
+    let totalBytes = 0;
+    for (const entry of Object.values(completedModelRef.current)) {
+      if (entry.stl) totalBytes += entry.stl.byteLength;
+    }
+    if (totalBytes < MAX_MODEL_PERSIST_BYTES) {
+      const three = threeObjectsRef.current;
+      const controls = orbitControlsRef.current;
+      const camera: CameraState | null =
+        three && controls
+          ? {
+              position: three.camera.position.toArray() as [number, number, number],
+              fov: three.camera.fov,
+              zoom: three.camera.zoom,
+              orbitTarget: controls.target.toArray() as [number, number, number],
+            }
+          : null;
+      const models: PersistedModelEntry[] = Object.entries(
+        completedModelRef.current
+      )
+        .filter(([, v]) => v.stl)
+        .map(([name, v]) => ({
+          name,
+          stl: copySharedBufferToArrayBuffer(v.stl!.buffer),
+          format: v.format,
+          color: v.color,
+          exported: v.exported,
+          group: v.group,
+          options: v.options,
+        }));
+      updateWorkspaceLastRender(projectHandle.name, {
+        file: tabManager.filename ?? "unknown",
+        backend,
+        camera: camera ?? { position: [0, 0, 100], fov: 75, zoom: 1, orbitTarget: [0, 0, 0] },
+        models,
+      });
+    } else {
+      // Model too large — clear any stale persisted render
+      updateWorkspaceLastRender(projectHandle.name, null);
+    }
+  };
+
+  // Inputs of the latest render, reused to re-export its parts in other formats
+  const renderInputsRef = useRef<RenderInputs | null>(null);
+
+  /**
+   * Gather the project files the active tab reaches through include/use/import
+   * so they can be uploaded into the worker VM.
+   */
+  const collectRenderInputs = async (
+    backend: "Manifold" | "CGAL",
+    defines: Record<string, string>
+  ): Promise<RenderInputs> => {
+    let extraFiles: Record<string, string | Uint8Array> = {};
+    let externalImports: string[] = [];
+    if (projectHandle && tabManager.filePath) {
+      const collected = await collectImports(projectHandle, tabManager.filePath);
+      extraFiles = collected.files;
+      externalImports = collected.externalImports;
+    }
+    const hasDefines = Object.keys(defines).length > 0;
+    if (hasDefines) {
+      log(
+        `Customizer overrides: ${Object.entries(defines)
+          .map(([k, v]) => `${k}=${v}`)
+          .join(", ")}`
+      );
+    }
+    return {
+      backend,
+      path: tabManager.filePath || "input.scad",
+      extraFiles,
+      externalImports,
+      defines: hasDefines ? defines : undefined,
+    };
+  };
 
-  const renderModel = async (backend: "Manifold" | "CGAL") => {
+  /**
+   * Apply the backend= and fn= options of a part's marker on top of the
+   * inputs shared by all parts.
+   */
+  const inputsForPart = (
+    part: OpenSCADPart,
+    inputs: RenderInputs
+  ): RenderInputs => {
+    const { backend, fn } = part.options ?? {};
+    if (backend === undefined && fn === undefined) return inputs;
+    return {
+      ...inputs,
+      backend: backend ?? inputs.backend,
+      defines:
+        fn === undefined ? inputs.defines : { ...inputs.defines, $fn: `${fn}` },
+    };
+  };
+
+  const renderModel = async (
+    backend: "Manifold" | "CGAL",
+    trigger: "manual" | "auto" = "manual",
+    mode: RenderMode = "render"
+  ) => {
     if (isProcessing) return log("Already processing");
-    const parts = identifyParts(tabManager.code);
+    let parts: Record<string, OpenSCADPart>;
+    try {
+      parts = identifyParts(tabManager.code);
+    } catch (err) {
+      // Bad markers: duplicate names, unknown options, stray //@endgroup
+      log(`Fail: ${formatError(err)}`);
+      if (trigger === "auto") setAutoRenderStatus("failed");
+      else alert(formatError(err));
+      return;
+    }
     if (!Object.keys(parts).length)
       return alert('No parts exported. Use "// @export".');
-    Object.entries(parts).forEach(([n, p]) => {
-      if (!(n in partSettings))
-        partSettings[n] = { visible: true, exported: p.exported };
-      else partSettings[n].exported = p.exported;
-    });
-    Object.keys(partSettings).forEach((n) => {
-      if (!(n in parts)) delete partSettings[n];
+    setPartSettings((prev) => {
+      const next: Record<string, PartSettings> = {};
+      for (const [n, p] of Object.entries(parts)) {
+        next[n] = {
+          visible: prev[n]?.visible ?? true,
+          exported: p.exported,
+          group: p.group,
+          options: p.options,
+        };
+      }
+      return next;
     });
-    setPartSettings({ ...partSettings });
+    const toRender = Object.entries(parts).filter(
+      ([, p]) => p.exported && isGroupEnabled(p.group)
+    );
+    setPartProgress({});
+    setPartStatuses(
+      Object.fromEntries(toRender.map(([n]) => [n, "pending" as const]))
+    );
     clearLogs();
+    // Marker problems show up before anything renders
+    const markerProblems = Object.values(parts).flatMap(
+      (p) => p.diagnostics ?? []
+    );
+    for (const { message } of markerProblems) log(`Error: ${message}`);
+    setDiagnostics(
+      markerProblems.map((d) => ({
+        ...d,
+        file: tabManager.filePath ?? undefined,
+      }))
+    );
     setIsProcessing(true);
+    cancelRequestedRef.current = false;
+    setCancelRequested(false);
     completedModelRef.current = {};
+    threeObjectsRef.current?.partsGroup.clear();
     log(`Found parts: ${Object.keys(parts).join(", ")}`);
     try {
-      // Collect .scad and .stl imports to upload into the worker VM
-      let extraFiles: Record<string, string | Uint8Array> = {};
-      let externalImports: string[] = [];
-      if (projectHandle && tabManager.filePath) {
-        const collected = await collectImports(
-          projectHandle,
-          tabManager.filePath
+      const inputs = await collectRenderInputs(
+        backend,
+        buildCustomizerDefines(
+          parseCustomizerParameters(getPreservedSection(tabManager.code)),
+          customizerValues
+        )
+      );
+      const filesDigest = await digestRenderFiles(
+        inputs.extraFiles,
+        inputs.externalImports
+      );
+      renderInputsRef.current = inputs;
+      // The pool limits how many of these actually run at once
+      const results = cancelRequestedRef.current
+        ? []
+        : await Promise.allSettled(
+            toRender.map(([n, p]) =>
+              renderPartCached(
+                n,
+                p,
+                mode,
+                inputsForPart(p, inputs),
+                filesDigest
+              ).then(() => streamPartIntoScene(n))
+            )
+          );
+      const cancelled = cancelRequestedRef.current;
+      if (!cancelled) {
+        const failure = results.find(
+          (r): r is PromiseRejectedResult => r.status === "rejected"
         );
-        extraFiles = collected.files;
-        externalImports = collected.externalImports;
+        if (failure) throw failure.reason;
+      }
+      const finished = Object.keys(completedModelRef.current);
+      if (cancelled) {
+        const skipped = toRender
+          .map(([n]) => n)
+          .filter((n) => !finished.includes(n));
+        setPartStatuses((prev) => {
+          const next = { ...prev };
+          for (const n of skipped) next[n] = "cancelled";
+          return next;
+        });
+        log(
+          `Render cancelled. Kept ${finished.length} finished part(s)` +
+            (skipped.length ? `; not rendered: ${skipped.join(", ")}` : "") +
+            "."
+        );
+        if (!finished.length) return;
+      } else {
+        log("Done");
       }
-      for (const [n, p] of Object.entries(parts))
-        if (p.exported)
-          await renderPartInWorker(
-            n,
-            p,
-            backend,
-            tabManager.filePath || "input.scad",
-            extraFiles,
-            externalImports
-          );
       setRenderedAtLeastOnce(true);
       setLastRenderedFile(tabManager.filename);
       setLastRenderedBackend(backend);
-      log("Done");
-      setPartSettings({ ...partSettings });
-      updateThreeScene();
-
-      // Persist model + camera state to IndexedDB (all-or-nothing)
-      if (projectHandle) {
-        let totalBytes = 0;
-        for (const entry of Object.values(completedModelRef.current)) {
-          if (entry.stl) totalBytes += entry.stl.byteLength;
-        }
-        if (totalBytes < MAX_MODEL_PERSIST_BYTES) {
-          const three = threeObjectsRef.current;
-          const controls = orbitControlsRef.current;
-          const camera: CameraState | null =
-            three && controls
-              ? {
-                  position: three.camera.position.toArray() as [number, number, number],
-                  fov: three.camera.fov,
-                  zoom: three.camera.zoom,
-                  orbitTarget: controls.target.toArray() as [number, number, number],
-                }
-              : null;
-          const models: PersistedModelEntry[] = Object.entries(
-            completedModelRef.current
-          )
-            .filter(([, v]) => v.stl)
-            .map(([name, v]) => ({
-              name,
-              stl: copySharedBufferToArrayBuffer(v.stl!.buffer),
-              color: v.color,
-              exported: v.exported,
-            }));
-          updateWorkspaceLastRender(projectHandle.name, {
-            file: tabManager.filename ?? "unknown",
-            backend,
-            camera: camera ?? { position: [0, 0, 100], fov: 75, zoom: 1, orbitTarget: [0, 0, 0] },
-            models,
-          });
-        } else {
-          // Model too large — clear any stale persisted render
-          updateWorkspaceLastRender(projectHandle.name, null);
-        }
-      }
+      finishThreeScene();
+      persistLastRender(backend);
+      if (trigger === "auto") setAutoRenderStatus("idle");
     } catch (err) {
-      alert("Rendering failed");
+      // Don't interrupt typing with a dialog for automatic renders
+      if (trigger === "auto") setAutoRenderStatus("failed");
+      else alert("Rendering failed");
       log(`Fail: ${formatError(err)}`);
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const downloadPart = async (name: string) => {
-    const part = completedModelRef.current[name];
-    if (!part?.stl) {
-      return alert(`${name} missing`);
+  // OpenSCAD's own shortcuts: F5 preview, F6 render, with the backend of the
+  // last render. When there's nothing to render F5 still reloads the page.
+  const renderShortcutRef = useRef<(event: KeyboardEvent) => void>(() => {});
+  renderShortcutRef.current = (event: KeyboardEvent) => {
+    if (event.key !== "F5" && event.key !== "F6") return;
+    if (!(tabManager.filename && isScadFile(tabManager.filename))) return;
+    // Keep the browser from reloading the page, even mid-render
+    event.preventDefault();
+    if (isProcessing) return;
+    renderModel(
+      previewBackend,
+      "manual",
+      event.key === "F5" ? "preview" : "render"
+    );
+  };
+  useEffect(() => {
+    const handler = (event: KeyboardEvent) => renderShortcutRef.current(event);
+    document.addEventListener("keydown", handler);
+    return () => document.removeEventListener("keydown", handler);
+  }, []);
+
+  const customizerParams = useMemo(
+    () =>
+      tabManager.filename && isScadFile(tabManager.filename)
+        ? parseCustomizerParameters(getPreservedSection(tabManager.code))
+        : [],
+    [tabManager.code, tabManager.filename]
+  );
+  const customizerValues =
+    customizerOverrides[tabManager.filePath ?? ""] ?? {};
+  const setCustomizerValues = (values: Record<string, CustomizerValue>) => {
+    const key = tabManager.filePath ?? "";
+    setCustomizerOverrides((prev) => ({ ...prev, [key]: values }));
+  };
+  const changeCustomizerValue = (
+    name: string,
+    value: CustomizerValue | undefined
+  ) => {
+    const next = { ...customizerValues };
+    if (value === undefined) delete next[name];
+    else next[name] = value;
+    setCustomizerValues(next);
+  };
+
+  // Presets saved next to the active file (OpenSCAD's <name>.json)
+  const [parameterSets, setParameterSets] = useState<ParameterSets>({});
+  useEffect(() => {
+    setParameterSets({});
+    const path = tabManager.filePath;
+    if (!projectHandle || !path || !isScadFile(path)) return;
+    let cancelled = false;
+    loadParameterSets(projectHandle, path).then((sets) => {
+      if (!cancelled) setParameterSets(sets);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectHandle, tabManager.filePath]);
+
+  // The preset that gives every parameter the value it has now, comparing
+  // what each would render with rather than which overrides are stored
+  const activePreset =
+    Object.keys(parameterSets).find((name) => {
+      const preset = fromParameterSet(customizerParams, parameterSets[name]);
+      return customizerParams.every(({ name: param, defaultValue }) =>
+        customizerValuesEqual(
+          preset[param] ?? defaultValue,
+          customizerValues[param] ?? defaultValue
+        )
+      );
+    }) ?? null;
+
+  const writeParameterSets = async (sets: ParameterSets) => {
+    if (!projectHandle || !tabManager.filePath) return;
+    try {
+      await saveParameterSets(projectHandle, tabManager.filePath, sets);
+      setParameterSets(sets);
+    } catch (err) {
+      alert(`Saving parameter sets failed: ${formatError(err)}`);
+    }
+  };
+
+  const savePreset = async () => {
+    if (!projectHandle || !tabManager.filePath) {
+      return alert("Open a project file to save presets.");
+    }
+    const name = prompt("Preset name", activePreset ?? "")?.trim();
+    if (!name) return;
+    if (
+      name in parameterSets &&
+      name !== activePreset &&
+      !confirm(`Replace the existing preset "${name}"?`)
+    ) {
+      return;
+    }
+    await writeParameterSets({
+      ...parameterSets,
+      [name]: toParameterSet(customizerParams, customizerValues),
+    });
+  };
+
+  const deletePreset = async (name: string) => {
+    if (!confirm(`Delete the preset "${name}"?`)) return;
+    const next = { ...parameterSets };
+    delete next[name];
+    await writeParameterSets(next);
+  };
+
+  const cancelRender = () => {
+    if (!isProcessing || cancelRequestedRef.current) return;
+    cancelRequestedRef.current = true;
+    setCancelRequested(true);
+    log("Cancelling render...");
+    renderPoolRef.current?.cancelAll();
+  };
+
+  /**
+   * Start an automatic Manifold render of the active tab. A render already in
+   * flight is stale by definition, so it is cancelled and the new one starts
+   * as soon as it has wound down.
+   */
+  const requestAutoRender = () => {
+    if (!(tabManager.filename && isScadFile(tabManager.filename))) return;
+    if (isProcessing) {
+      pendingAutoRenderRef.current = true;
+      setAutoRenderStatus("scheduled");
+      cancelRender();
+      return;
     }
+    setAutoRenderStatus("rendering");
+    renderModel("Manifold", "auto");
+  };
 
+  autoRenderOnSaveRef.current = (filePath: string) => {
+    if (autoRenderMode !== "save") return;
+    if (filePath !== tabManager.filePath) return;
+    requestAutoRender();
+  };
+
+  // Latest closure for effects that must not re-run on every render
+  const requestAutoRenderRef = useRef(requestAutoRender);
+  requestAutoRenderRef.current = requestAutoRender;
+
+  useEffect(() => {
+    if (isProcessing || !pendingAutoRenderRef.current) return;
+    pendingAutoRenderRef.current = false;
+    requestAutoRenderRef.current();
+  }, [isProcessing]);
+
+  // "While typing" mode: render after edits settle
+  useEffect(() => {
+    if (autoRenderMode !== "typing" || !tabManager.dirty) return;
+    if (!(tabManager.filename && isScadFile(tabManager.filename))) return;
+    setAutoRenderStatus("scheduled");
+    autoRenderTimeoutRef.current = window.setTimeout(() => {
+      autoRenderTimeoutRef.current = null;
+      requestAutoRenderRef.current();
+    }, AUTO_RENDER_DEBOUNCE_MS);
+    return () => {
+      if (autoRenderTimeoutRef.current) {
+        window.clearTimeout(autoRenderTimeoutRef.current);
+        autoRenderTimeoutRef.current = null;
+      }
+    };
+  }, [autoRenderMode, tabManager.code, tabManager.dirty, tabManager.filename]);
+
+  const changeAutoRenderMode = (mode: AutoRenderMode) => {
+    setAutoRenderMode(mode);
+    setAutoRenderStatus("idle");
+    if (projectHandle) {
+      updateWorkspaceState(projectHandle.name, { autoRender: mode });
+    }
+  };
+
+  const changeFormatOnSave = (enabled: boolean) => {
+    setFormatOnSave(enabled);
+    if (projectHandle) {
+      updateWorkspaceState(projectHandle.name, { formatOnSave: enabled });
+    }
+  };
+
+  /**
+   * Write an export into the project's exports/ directory, or hand it to the
+   * browser as a download when there's no writable project.
+   */
+  const saveExportFile = async (
+    fileName: string,
+    data: Uint8Array,
+    subdir?: string
+  ) => {
     // Make sure the bytes are backed by a regular ArrayBuffer (not SAB)
-    const ab = copySharedBufferToArrayBuffer(part.stl.buffer);
+    const ab = copySharedBufferToArrayBuffer(data.buffer);
     // Respect the original view window
-    const bytes = new Uint8Array(ab, part.stl.byteOffset, part.stl.byteLength);
+    const bytes = new Uint8Array(ab, data.byteOffset, data.byteLength);
 
     // If File System Access API is unsupported or no project handle, fallback to browser download
     if (fsaUnsupported || !projectHandle) {
       const url = URL.createObjectURL(new Blob([bytes]));
       const a = document.createElement("a");
       a.href = url;
-      a.download = `${name}.stl`;
+      a.download = subdir ? `${subdir}-${fileName}` : fileName;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -1071,10 +1888,15 @@ export default function App() {
     }
 
     try {
-      const exportsDir = await projectHandle.getDirectoryHandle("exports", {
+      let exportsDir = await projectHandle.getDirectoryHandle("exports", {
         create: true,
       });
-      const fileHandle = await exportsDir.getFileHandle(`${name}.stl`, {
+      if (subdir) {
+        exportsDir = await exportsDir.getDirectoryHandle(subdir, {
+          create: true,
+        });
+      }
+      const fileHandle = await exportsDir.getFileHandle(fileName, {
         create: true,
       });
       const writable = await fileHandle.createWritable();
@@ -1085,6 +1907,417 @@ export default function App() {
     }
   };
 
+  const toThreeMFPart = (
+    name: string,
+    part: OpenSCADPartWithSTL
+  ): ThreeMFPart => {
+    let color: string | undefined;
+    try {
+      color = part.color ? Color(part.color).hexa() : undefined;
+    } catch {
+      log(`[${name}] Unrecognized color "${part.color}", exporting uncolored.`);
+    }
+    return { name, stl: part.stl!, color };
+  };
+
+  // A marker's format= wins over the panel's choice for its dimension
+  const downloadFormatsFor = (
+    options: PartOptions | undefined
+  ): Record<2 | 3, ExportFormat> => {
+    const format = options?.format;
+    if (!format) return downloadFormats;
+    return { ...downloadFormats, [EXPORT_FORMATS[format].dimension]: format };
+  };
+
+  /**
+   * Have OpenSCAD write a part in the download format picked for its
+   * dimension. Without a `dimension` hint the 3D format is tried first and the
+   * worker's 2D fallback tells us to retry with the 2D one.
+   */
+  const exportPartInWorker = async (
+    name: string,
+    part: OpenSCADPart,
+    inputs: RenderInputs,
+    dimension?: 2 | 3
+  ): Promise<RenderOutput> => {
+    // 3MF comes from our own writer so it keeps the part's name and color
+    const formats = downloadFormatsFor(part.options);
+    const wanted3D = formats[3];
+    const run = (exportFormat: ExportFormat) =>
+      getRenderPool().render(
+        {
+          partName: name,
+          part,
+          exportFormat,
+          ...inputs,
+          ...limitsFor(inputs.backend),
+        },
+        { onLog: (message) => log(`[${name}] ${message}`) }
+      );
+    let output = await run(
+      dimension === 2
+        ? formats[2]
+        : wanted3D === "3mf"
+        ? "binstl"
+        : wanted3D
+    );
+    if (
+      EXPORT_FORMATS[output.format].dimension === 2 &&
+      output.format !== formats[2]
+    ) {
+      output = await run(formats[2]);
+    }
+    if (wanted3D === "3mf" && output.format === "binstl") {
+      const packed = createThreeMF([
+        toThreeMFPart(name, { ...part, stl: output.data }),
+      ]);
+      return { data: packed, format: "3mf" };
+    }
+    return output;
+  };
+
+  /**
+   * Save a part in the download format picked for its dimension. The
+   * displayed STL/SVG is written as is; other formats are exported again by
+   * OpenSCAD from the inputs of the last render.
+   */
+  const downloadPart = async (name: string) => {
+    const part = completedModelRef.current[name];
+    if (!part?.stl) {
+      return alert(`${name} missing`);
+    }
+    const current = part.format ?? "binstl";
+    const format = downloadFormatsFor(part.options)[
+      EXPORT_FORMATS[current].dimension
+    ];
+    if (format === current) {
+      return saveExportFile(
+        `${name}.${EXPORT_FORMATS[current].extension}`,
+        part.stl
+      );
+    }
+    if (format === "3mf") {
+      return saveExportFile(
+        `${name}.3mf`,
+        createThreeMF([toThreeMFPart(name, part)])
+      );
+    }
+    const inputs = renderInputsRef.current;
+    if (!inputs || !part.ownSourceCode) {
+      return alert(
+        `Render again to export "${name}" as ${EXPORT_FORMATS[format].label}.`
+      );
+    }
+    log(`[${name}] Exporting as ${EXPORT_FORMATS[format].label}...`);
+    try {
+      const output = await exportPartInWorker(
+        name,
+        part,
+        inputsForPart(part, inputs),
+        EXPORT_FORMATS[current].dimension
+      );
+      await saveExportFile(
+        `${name}.${EXPORT_FORMATS[output.format].extension}`,
+        output.data
+      );
+      log(`[${name}] Exported as ${EXPORT_FORMATS[output.format].label}.`);
+    } catch (err) {
+      log(`[${name}] Export failed: ${formatError(err)}`);
+      alert(`Export of "${name}" failed`);
+    }
+  };
+
+  /**
+   * Render every saved parameter set and write its parts, in the current
+   * download formats, to exports/<preset>/.
+   */
+  const exportAllPresets = async () => {
+    if (isProcessing) return log("Already processing");
+    const presetNames = Object.keys(parameterSets);
+    let parts: [string, OpenSCADPart][];
+    try {
+      parts = Object.entries(identifyParts(tabManager.code)).filter(
+        ([, p]) => p.exported && isGroupEnabled(p.group)
+      );
+    } catch (err) {
+      return alert(formatError(err));
+    }
+    if (!presetNames.length || !parts.length) {
+      return alert("Nothing to export: no presets or no exported parts.");
+    }
+    const backend = previewBackend;
+    clearLogs();
+    setIsProcessing(true);
+    cancelRequestedRef.current = false;
+    setCancelRequested(false);
+    let failures = 0;
+    try {
+      for (const preset of presetNames) {
+        if (cancelRequestedRef.current) break;
+        const dir = preset.replace(/[\\/:*?"<>|]+/g, "_").trim() || "preset";
+        log(`Exporting preset "${preset}" to exports/${dir}/...`);
+        const inputs = await collectRenderInputs(
+          backend,
+          buildCustomizerDefines(
+            customizerParams,
+            fromParameterSet(customizerParams, parameterSets[preset])
+          )
+        );
+        const results = await Promise.allSettled(
+          parts.map(async ([name, part]) => {
+            const output = await exportPartInWorker(
+              name,
+              part,
+              inputsForPart(part, inputs)
+            );
+            await saveExportFile(
+              `${name}.${EXPORT_FORMATS[output.format].extension}`,
+              output.data,
+              dir
+            );
+          })
+        );
+        results.forEach((result, i) => {
+          if (result.status === "fulfilled") return;
+          if (result.reason instanceof RenderCancelledError) return;
+          failures++;
+          log(
+            `[${preset}/${parts[i][0]}] Export failed: ${formatError(
+              result.reason
+            )}`
+          );
+        });
+      }
+      log(
+        cancelRequestedRef.current
+          ? "Preset export cancelled."
+          : failures
+          ? `Preset export finished with ${failures} failure(s).`
+          : `Exported ${presetNames.length} preset(s).`
+      );
+    } catch (err) {
+      log(`Preset export failed: ${formatError(err)}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  /**
+   * Pack every rendered, exported part into one 3MF with names and colors.
+   */
+  const exportAllAs3MF = async () => {
+    const parts: ThreeMFPart[] = [];
+    for (const [name, part] of Object.entries(completedModelRef.current)) {
+      const settings = partSettings[name];
+      if (!part.stl || !settings?.exported) continue;
+      if (!isGroupEnabled(settings.group)) continue;
+      if (part.format) {
+        log(`[${name}] Skipped in 3MF: 2D parts have no mesh.`);
+        continue;
+      }
+      parts.push(toThreeMFPart(name, part));
+    }
+    if (!parts.length) return alert("Nothing rendered to export yet.");
+    try {
+      const baseName = (lastRenderedFile ?? "assembly").replace(/\.scad$/i, "");
+      await saveExportFile(`${baseName}.3mf`, createThreeMF(parts));
+      log(`Exported ${parts.length} part(s) to ${baseName}.3mf`);
+    } catch (err) {
+      alert(`3MF export failed: ${formatError(err)}`);
+    }
+  };
+
+  const partTree = new Tree<string>();
+  for (const [name, s] of Object.entries(partSettings)) {
+    partTree.insert([...(s.group ?? []), name], name);
+  }
+
+  const renderPartRow = (name: string, s: PartSettings) => {
+    const exported = s.exported && isGroupEnabled(s.group);
+    const options = s.options ?? {};
+    const rendered = completedModelRef.current[name];
+    const dimension = rendered?.format
+      ? EXPORT_FORMATS[rendered.format].dimension
+      : 3;
+    const format = downloadFormatsFor(options)[dimension];
+    // Effective settings; the ones set on the marker line are bold
+    const effective: [string, boolean][] = [
+      [options.backend ?? lastRenderedBackend ?? "", !!options.backend],
+      [options.fn === undefined ? "" : `$fn=${options.fn}`, true],
+      [EXPORT_FORMATS[format].label, format === options.format],
+    ];
+    return (
+      <Div key={name} display="flex" alignItems="center" gap="0.7em">
+        <Label
+          display="flex"
+          alignItems="center"
+          gap="0.7em"
+          color={!exported ? "#666" : undefined}
+        >
+          <Input
+            type="checkbox"
+            checked={s.visible}
+            onChange={() => {
+              setPartSettings((prev) => ({
+                ...prev,
+                [name]: { ...prev[name], visible: !prev[name].visible },
+              }));
+            }}
+          />
+          {exported ? name : `${name}(ignored)`}
+        </Label>
+        <Span fontSize="0.7rem" color="#888" display="flex" gap="0.4em">
+          {options.color && (
+            <Span
+              display="inline-block"
+              width="0.8em"
+              height="0.8em"
+              borderRadius="2px"
+              border="1px solid #aaa"
+              background={options.color}
+              title={`color=${options.color}`}
+            />
+          )}
+          {effective
+            .filter(([label]) => label)
+            .map(([label, fromMarker]) => (
+              <Span
+                key={label}
+                fontWeight={fromMarker ? "bold" : undefined}
+                title={fromMarker ? "Set on the marker line" : undefined}
+              >
+                {label}
+              </Span>
+            ))}
+        </Span>
+        {partStatuses[name] === "pending" && partProgress[name] && (
+          <Span
+            display="flex"
+            alignItems="center"
+            gap="0.4em"
+            fontSize="0.75rem"
+            color="#666"
+          >
+            <Span
+              display="block"
+              width="4em"
+              height="6px"
+              borderRadius="3px"
+              background="#e0e0e0"
+              overflow="hidden"
+            >
+              <Span
+                display="block"
+                height="100%"
+                background="#1e88e5"
+                transition="width 0.3s ease"
+                width={`${Math.round(
+                  renderPhaseFraction(partProgress[name]) * 100
+                )}%`}
+              />
+            </Span>
+            {RENDER_PHASE_LABELS[partProgress[name]]}
+          </Span>
+        )}
+        {partStatuses[name] &&
+          partStatuses[name] !== "done" &&
+          !(partStatuses[name] === "pending" && partProgress[name]) && (
+            <Span
+              fontSize="0.75rem"
+              color={
+                partStatuses[name] === "pending" ||
+                partStatuses[name] === "cancelled"
+                  ? "#666"
+                  : "#b00020"
+              }
+            >
+              {PART_STATUS_LABELS[partStatuses[name]]}
+            </Span>
+          )}
+        {completedModelRef.current[name]?.stl && (
+          <Button
+            width="1.25rem"
+            height="1.25rem"
+            onClick={() => downloadPart(name)}
+          >
+            <FaFileDownload style={{ fontSize: "0.75rem" }} />
+          </Button>
+        )}
+      </Div>
+    );
+  };
+
+  /**
+   * Parts panel rows for one level of //@group folders. Folders toggle the
+   * visibility of everything inside them and can be left out of renders.
+   */
+  const renderPartTree = (
+    nodes: Tree<string>["value"],
+    path: string[]
+  ): ReactNode[] =>
+    [...nodes.entries()].map(([segment, node]) => {
+      if (!(node instanceof Map))
+        return renderPartRow(node, partSettings[node]);
+      const group = [...path, segment];
+      const key = groupKey(group);
+      const members = Object.entries(partSettings).filter(
+        ([, s]) => key === groupKey((s.group ?? []).slice(0, group.length))
+      );
+      const allVisible = members.every(([, s]) => s.visible);
+      const enabled = !disabledGroups[key];
+      return (
+        <details key={`group:${key}`} open>
+          <summary style={{ cursor: "pointer" }}>
+            <Span display="inline-flex" alignItems="center" gap="0.7em">
+              <Input
+                type="checkbox"
+                title="Show or hide every part in this group"
+                checked={allVisible}
+                onChange={() => {
+                  setPartSettings((prev) => {
+                    const next = { ...prev };
+                    for (const [n] of members) {
+                      next[n] = { ...prev[n], visible: !allVisible };
+                    }
+                    return next;
+                  });
+                }}
+              />
+              <Span color={enabled ? undefined : "#666"}>{segment}</Span>
+              <Label
+                display="flex"
+                alignItems="center"
+                gap="0.3em"
+                fontSize="0.75rem"
+                color="#666"
+                title="Include this group in renders and exports"
+              >
+                <Input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={() => {
+                    const next = { ...disabledGroups };
+                    if (enabled) next[key] = true;
+                    else delete next[key];
+                    setDisabledGroups(next);
+                  }}
+                />
+                export
+              </Label>
+            </Span>
+          </summary>
+          <Div
+            display="flex"
+            flexDirection="column"
+            gap="8px"
+            padding="8px 0 0 1.2em"
+          >
+            {renderPartTree(node, group)}
+          </Div>
+        </details>
+      );
+    });
+
   return (
     <>
       {!projectHandle ? (
@@ -1127,7 +2360,7 @@ export default function App() {
               height: "100%",
               background: "#eee",
               display: "grid",
-              gridTemplateRows: "auto 1fr auto",
+              gridTemplateRows: "auto 1fr auto auto",
               gridTemplateColumns: "1fr",
               overflow: "hidden",
             }}
@@ -1152,6 +2385,15 @@ export default function App() {
                 openFilePath={tabManager.filePath}
               />
             </div>
+            {outline ? (
+              <OutlinePanel
+                items={outline}
+                activePath={outlineTrail}
+                onSelect={revealOutlineItem}
+              />
+            ) : (
+              <div />
+            )}
             <Div padding="8px" borderTop="1px solid #ccc">
               <Button
                 width="100%"
@@ -1162,6 +2404,7 @@ export default function App() {
                 color="#9b1c1c"
                 onClick={async () => {
                   await clearWorkspaceState(projectHandle.name);
+                  await clearRenderCache(projectHandle.name);
                   window.location.reload();
                 }}
               >
@@ -1186,6 +2429,18 @@ export default function App() {
             <EditorTab
               agent={tabManager}
               containerRef={editorContainerRef}
+              formatOnSave={formatOnSave}
+              onFormatOnSaveChange={changeFormatOnSave}
+              breadcrumbs={
+                outline &&
+                tabManager.filePath && (
+                  <Breadcrumbs
+                    filePath={tabManager.filePath}
+                    path={outlineTrail}
+                    onSelect={revealOutlineItem}
+                  />
+                )
+              }
             />
           </div>
           <div
@@ -1210,6 +2465,15 @@ export default function App() {
           >
             <Div width="100%" display="flex" flexDirection="column" gap="0">
               <Div display="flex" gap="8px" padding="8px">
+                <Button
+                  disabled={isProcessing || !(tabManager.filename && isScadFile(tabManager.filename))}
+                  flex={1}
+                  fontSize="150%"
+                  title="Render with # and % subtrees shown (F5)"
+                  onClick={() => renderModel(previewBackend, "manual", "preview")}
+                >
+                  Preview
+                </Button>
                 <Button
                   disabled={isProcessing || !(tabManager.filename && isScadFile(tabManager.filename))}
                   flex={1}
@@ -1226,6 +2490,79 @@ export default function App() {
                 >
                   Render (CGAL)
                 </Button>
+                {isProcessing && (
+                  <Button
+                    fontSize="150%"
+                    background="#fff7f7"
+                    color="#9b1c1c"
+                    border="1px solid #d0d0d0"
+                    disabled={cancelRequested}
+                    onClick={cancelRender}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </Div>
+              <Div
+                display="flex"
+                alignItems="center"
+                gap="8px"
+                padding="0 8px 8px"
+                fontSize="12px"
+                color="#444"
+              >
+                <Label htmlFor="render-concurrency">Parallel renders</Label>
+                <Input
+                  id="render-concurrency"
+                  type="number"
+                  min={1}
+                  max={32}
+                  width="5em"
+                  value={renderConcurrency ?? ""}
+                  placeholder={`auto (${defaultPoolSize()})`}
+                  onChange={(e) => {
+                    const value = parseInt(e.currentTarget.value, 10);
+                    changeRenderConcurrency(
+                      Number.isFinite(value) && value >= 1 ? value : null
+                    );
+                  }}
+                />
+                <Label htmlFor="auto-render-mode" marginLeft="8px">
+                  Auto-render
+                </Label>
+                <select
+                  id="auto-render-mode"
+                  value={autoRenderMode}
+                  onChange={(e) =>
+                    changeAutoRenderMode(e.target.value as AutoRenderMode)
+                  }
+                >
+                  <option value="off">Off</option>
+                  <option value="save">On save</option>
+                  <option value="typing">While typing</option>
+                </select>
+                {autoRenderMode !== "off" && (
+                  <Span
+                    display="flex"
+                    alignItems="center"
+                    gap="4px"
+                    title={AUTO_RENDER_STATUS_LABELS[autoRenderStatus]}
+                  >
+                    <Span
+                      width="8px"
+                      height="8px"
+                      borderRadius="50%"
+                      background={AUTO_RENDER_STATUS_COLORS[autoRenderStatus]}
+                    />
+                    {AUTO_RENDER_STATUS_LABELS[autoRenderStatus]}
+                  </Span>
+                )}
+              </Div>
+              <Div padding="0 8px 8px" fontSize="12px" color="#444">
+                <RenderLimitsEditor
+                  limits={renderLimits}
+                  onChange={changeRenderLimits}
+                />
               </Div>
               {lastRenderedFile && (
                 <Div
@@ -1294,7 +2631,64 @@ export default function App() {
                         {Object.keys(partSettings).length}
                       </Div>
                     )}
+                    {partsPanelOpen && renderedAtLeastOnce && (
+                      <Button
+                        marginLeft="auto"
+                        fontSize="0.75rem"
+                        padding="2px 6px"
+                        disabled={isProcessing}
+                        title="Export every rendered part into one 3MF file"
+                        onClick={exportAllAs3MF}
+                      >
+                        Export all as 3MF
+                      </Button>
+                    )}
                   </Div>
+                  {partsPanelOpen && renderedAtLeastOnce && (
+                    <Div
+                      marginTop="8px"
+                      display="flex"
+                      alignItems="center"
+                      gap="6px"
+                      fontSize="0.75rem"
+                      color="#444"
+                    >
+                      Download as
+                      <select
+                        aria-label="Download format for 3D parts"
+                        value={downloadFormats[3]}
+                        onChange={(e) =>
+                          setDownloadFormats({
+                            ...downloadFormats,
+                            3: e.target.value as ExportFormat,
+                          })
+                        }
+                      >
+                        {FORMATS_3D.map((f) => (
+                          <option key={f} value={f}>
+                            {EXPORT_FORMATS[f].label}
+                          </option>
+                        ))}
+                      </select>
+                      2D:
+                      <select
+                        aria-label="Download format for 2D parts"
+                        value={downloadFormats[2]}
+                        onChange={(e) =>
+                          setDownloadFormats({
+                            ...downloadFormats,
+                            2: e.target.value as ExportFormat,
+                          })
+                        }
+                      >
+                        {FORMATS_2D.map((f) => (
+                          <option key={f} value={f}>
+                            {EXPORT_FORMATS[f].label}
+                          </option>
+                        ))}
+                      </select>
+                    </Div>
+                  )}
                   {partsPanelOpen && (
                     <Div
                       marginTop="8px"
@@ -1303,48 +2697,32 @@ export default function App() {
                       gap="8px"
                     >
                       {Object.keys(partSettings).length ? (
-                        Object.entries(partSettings).map(([name, s], i) => (
-                          <Div
-                            key={i}
-                            display="flex"
-                            alignItems="center"
-                            gap="0.7em"
-                          >
-                            <Label
-                              display="flex"
-                              alignItems="center"
-                              gap="0.7em"
-                              color={!s.exported ? "#666" : undefined}
-                            >
-                              <Input
-                                type="checkbox"
-                                checked={s.visible}
-                                onChange={() => {
-                                  s.visible = !s.visible;
-                                  setPartSettings({ ...partSettings });
-                                }}
-                              />
-                              {s.exported ? name : `${name}(ignored)`}
-                            </Label>
-                            {completedModelRef.current[name]?.stl && (
-                              <Button
-                                width="1.25rem"
-                                height="1.25rem"
-                                onClick={() => downloadPart(name)}
-                              >
-                                <FaFileDownload
-                                  style={{ fontSize: "0.75rem" }}
-                                />
-                              </Button>
-                            )}
-                          </Div>
-                        ))
+                        renderPartTree(partTree.value, [])
                       ) : (
                         <I>No parts yet.</I>
                       )}
                     </Div>
                   )}
                 </Div>
+                {customizerParams.length > 0 && (
+                  <CustomizerPanel
+                    parameters={customizerParams}
+                    values={customizerValues}
+                    onChange={changeCustomizerValue}
+                    onReset={() => setCustomizerValues({})}
+                    presets={Object.keys(parameterSets)}
+                    activePreset={activePreset}
+                    onSelectPreset={(name) =>
+                      setCustomizerValues(
+                        fromParameterSet(customizerParams, parameterSets[name])
+                      )
+                    }
+                    onSavePreset={savePreset}
+                    onDeletePreset={deletePreset}
+                    onExportPresets={exportAllPresets}
+                    busy={isProcessing}
+                  />
+                )}
                 <ThreeViewer
                   handleRef={threeObjectsRef}
                   controlsRef={orbitControlsRef}
@@ -1417,15 +2795,27 @@ export default function App() {
               </Div>
             </Div>
             <Div
-              ref={consoleDivRef}
-              overflow="auto"
-              whiteSpace="pre-wrap"
-              background="darkgreen"
-              color="white"
-              fontFamily="'Fira Code', monospace"
+              display="flex"
+              flexDirection="column"
+              overflow="hidden"
               width="100%"
             >
-              {messages.join("\n") + "\n"}
+              <ProblemsPanel
+                diagnostics={diagnostics}
+                onOpen={openDiagnostic}
+              />
+              <Div
+                ref={consoleDivRef}
+                flex="1"
+                overflow="auto"
+                whiteSpace="pre-wrap"
+                background="darkgreen"
+                color="white"
+                fontFamily="'Fira Code', monospace"
+                width="100%"
+              >
+                {messages.join("\n") + "\n"}
+              </Div>
             </Div>
           </div>
         </div>
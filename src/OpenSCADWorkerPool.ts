@@ -0,0 +1,251 @@
+import type {
+  RenderOutput,
+  RenderRequest,
+  WorkerMessage,
+} from "./openscad-protocol";
+import type { FsSnapshotNode } from "./utils/fsSnapshot";
+import type { OpenSCADDiagnostic } from "./utils/openscadDiagnostics";
+import type { RenderPhase } from "./utils/renderProgress";
+import { getRenderLimitKind, RenderLimitError } from "./utils/renderLimits";
+import { toSerializableObject } from "./utils/serialization";
+import type { SerializableObject } from "./utils/serialization";
+
+export type RenderJob = Omit<RenderRequest, "command" | "jobId">;
+
+export type RenderJobHandlers = {
+  onLog?: (message: string, fromOpenSCAD: boolean) => void;
+  onProgress?: (phase: RenderPhase) => void;
+  onDebugFs?: (snapshot: FsSnapshotNode) => void;
+  onDiagnostic?: (diagnostic: OpenSCADDiagnostic) => void;
+};
+
+/**
+ * Rejection reason for jobs stopped through {@link OpenSCADWorkerPool.cancelAll}.
+ */
+export class RenderCancelledError extends Error {
+  partName: string;
+
+  constructor(partName: string) {
+    super(`Render of "${partName}" was cancelled`);
+    this.name = "RenderCancelledError";
+    this.partName = partName;
+  }
+}
+
+type PendingJob = {
+  request: RenderRequest;
+  handlers: RenderJobHandlers;
+  resolve: (output: RenderOutput) => void;
+  reject: (reason: unknown) => void;
+};
+
+/**
+ * Upper bound for the automatic pool size. Every worker holds its own WASM heap,
+ * so one per core is not free on machines with many cores.
+ */
+export const MAX_AUTO_POOL_SIZE = 8;
+
+/**
+ * Pool size used when the workspace doesn't pin one: one worker per logical core.
+ */
+export function defaultPoolSize(): number {
+  const cores = navigator.hardwareConcurrency || 1;
+  return Math.max(1, Math.min(cores, MAX_AUTO_POOL_SIZE));
+}
+
+type PoolWorker = {
+  worker: Worker;
+  job: PendingJob | null;
+  timer: number | null;
+};
+
+/**
+ * Keeps a fixed number of long-lived OpenSCAD workers around so each render
+ * reuses an already initialized WASM instance instead of paying for WASM,
+ * font and MCAD setup again.
+ *
+ * Jobs are queued and handed to the first idle worker; each worker only ever
+ * runs one job at a time.
+ */
+export default class OpenSCADWorkerPool {
+  private workers: PoolWorker[] = [];
+  private queue: PendingJob[] = [];
+  private nextJobId = 1;
+  private size: number;
+
+  constructor(size = 1) {
+    this.size = Math.max(1, Math.floor(size));
+    // Spawn eagerly so instances are warm by the time the first render arrives
+    for (let i = 0; i < this.size; i++) this.workers.push(this.spawn());
+  }
+
+  get concurrency(): number {
+    return this.size;
+  }
+
+  /**
+   * Change how many jobs may run at once. Extra idle workers are terminated
+   * immediately; busy ones are retired as soon as their job finishes.
+   */
+  resize(size: number) {
+    this.size = Math.max(1, Math.floor(size));
+    while (this.workers.length < this.size) this.workers.push(this.spawn());
+    this.retireExcess();
+    this.dispatch();
+  }
+
+  render(
+    job: RenderJob,
+    handlers: RenderJobHandlers = {}
+  ): Promise<RenderOutput> {
+    return new Promise<RenderOutput>((resolve, reject) => {
+      this.queue.push({
+        request: { ...job, command: "render", jobId: this.nextJobId++ },
+        handlers,
+        resolve,
+        reject,
+      });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop every queued and running job. A running OpenSCAD call can't be
+   * interrupted from inside the worker, so busy workers are terminated and
+   * replaced with fresh ones; idle workers keep their warm instances.
+   */
+  cancelAll() {
+    for (const job of this.queue.splice(0)) {
+      job.reject(new RenderCancelledError(job.request.partName));
+    }
+    for (const pw of [...this.workers]) {
+      const job = pw.job;
+      if (!job) continue;
+      pw.job = null;
+      this.replace(pw);
+      job.reject(new RenderCancelledError(job.request.partName));
+    }
+  }
+
+  /**
+   * Terminate every worker and reject anything still queued or running.
+   */
+  terminate() {
+    const error = new Error("Worker pool terminated");
+    for (const pw of this.workers) {
+      this.clearTimer(pw);
+      pw.worker.terminate();
+      pw.job?.reject(error);
+    }
+    for (const job of this.queue.splice(0)) job.reject(error);
+    this.workers = [];
+  }
+
+  private spawn(): PoolWorker {
+    const worker = new Worker(
+      new URL("./openscad.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    const pw: PoolWorker = { worker, job: null, timer: null };
+    worker.onmessage = (e: MessageEvent<WorkerMessage>) =>
+      this.handleMessage(pw, e.data);
+    worker.onerror = (err) => {
+      const job = pw.job;
+      pw.job = null;
+      this.clearTimer(pw);
+      // The worker may be wedged; replace it rather than reuse it
+      this.replace(pw);
+      job?.reject(new Error(`Worker error: ${err.message}`));
+      this.dispatch();
+    };
+    return pw;
+  }
+
+  private retireExcess() {
+    for (let i = this.workers.length - 1; i >= 0; i--) {
+      if (this.workers.length <= this.size) return;
+      const pw = this.workers[i];
+      if (pw.job) continue;
+      pw.worker.terminate();
+      this.workers.splice(i, 1);
+    }
+  }
+
+  private replace(pw: PoolWorker) {
+    this.clearTimer(pw);
+    pw.worker.terminate();
+    const idx = this.workers.indexOf(pw);
+    if (idx !== -1) this.workers.splice(idx, 1, this.spawn());
+  }
+
+  private handleMessage(pw: PoolWorker, data: WorkerMessage) {
+    const job = pw.job;
+    if (!job || data.jobId !== job.request.jobId) return;
+    if (data.type === "log") {
+      job.handlers.onLog?.(data.message, !!data.fromOpenSCAD);
+    } else if (data.type === "progress") {
+      job.handlers.onProgress?.(data.phase);
+    } else if (data.type === "debugfs") {
+      job.handlers.onDebugFs?.(data.snapshot);
+    } else if (data.type === "diagnostic") {
+      job.handlers.onDiagnostic?.(data.diagnostic);
+    } else if (data.type === "result") {
+      pw.job = null;
+      this.clearTimer(pw);
+      const { data: output, format, highlight, background } = data;
+      job.resolve({ data: output, format, highlight, background });
+      this.dispatch();
+    } else if (data.type === "error") {
+      pw.job = null;
+      this.clearTimer(pw);
+      // A job that hit a watchdog limit leaves the worker unusable (still
+      // spinning, or with an exhausted heap), so kill it
+      if (getRenderLimitKind(data.error)) this.replace(pw);
+      job.reject(data.error);
+      this.dispatch();
+    }
+  }
+
+  private clearTimer(pw: PoolWorker) {
+    if (pw.timer !== null) {
+      window.clearTimeout(pw.timer);
+      pw.timer = null;
+    }
+  }
+
+  private startTimer(pw: PoolWorker, job: PendingJob) {
+    const { timeoutMs, jobId, partName, backend = "Manifold" } = job.request;
+    if (!timeoutMs) return;
+    pw.timer = window.setTimeout(() => {
+      pw.timer = null;
+      if (pw.job !== job) return;
+      const error = new RenderLimitError(
+        "timeout",
+        `Render of "${partName}" was stopped: it ran longer than the ${Math.round(
+          timeoutMs / 1000
+        )} s limit for the ${backend} backend.`
+      );
+      // Reported exactly like an error posted by the worker itself
+      this.handleMessage(pw, {
+        type: "error",
+        jobId,
+        partName,
+        error: toSerializableObject(error, {
+          enumerableOnly: false,
+        }) as SerializableObject,
+      });
+    }, timeoutMs);
+  }
+
+  private dispatch() {
+    this.retireExcess();
+    for (const pw of this.workers) {
+      if (!this.queue.length) return;
+      if (pw.job) continue;
+      const job = this.queue.shift()!;
+      pw.job = job;
+      this.startTimer(pw, job);
+      pw.worker.postMessage(job.request);
+    }
+  }
+}
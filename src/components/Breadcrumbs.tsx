@@ -0,0 +1,61 @@
+import { Fragment } from "react";
+import { Div, Span } from "style-props-html";
+import { FaChevronRight } from "react-icons/fa";
+import type { OutlineItem } from "../openscad-outline";
+import { OUTLINE_ICONS } from "./outlineIcons";
+
+export interface BreadcrumbsProps {
+  /** Project-relative path of the file in the editor */
+  filePath: string;
+  /** Outline items around the cursor, outermost first */
+  path: OutlineItem[];
+  onSelect: (item: OutlineItem) => void;
+}
+
+/** Where the cursor is: the file, then the part and definition around it */
+export default function Breadcrumbs({
+  filePath,
+  path,
+  onSelect,
+}: BreadcrumbsProps) {
+  const separator = <FaChevronRight style={{ fontSize: "8px" }} />;
+  return (
+    <Div
+      display="flex"
+      alignItems="center"
+      gap="6px"
+      padding="2px 10px"
+      fontSize="12px"
+      color="#ccc"
+      background="#1e1e1e"
+      borderBottom="1px solid #333"
+      whiteSpace="nowrap"
+      overflow="hidden"
+    >
+      {filePath.split("/").map((segment, i, all) => (
+        <Fragment key={`dir:${i}`}>
+          {i > 0 && separator}
+          <Span color={i === all.length - 1 ? "#eee" : undefined}>
+            {segment}
+          </Span>
+        </Fragment>
+      ))}
+      {path.map((item) => (
+        <Fragment key={`${item.kind}:${item.name}`}>
+          {separator}
+          <Span
+            display="inline-flex"
+            alignItems="center"
+            gap="4px"
+            cursor="pointer"
+            title={item.detail || item.name}
+            onClick={() => onSelect(item)}
+          >
+            {OUTLINE_ICONS[item.kind]}
+            {item.name}
+          </Span>
+        </Fragment>
+      ))}
+    </Div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { Button, Div, H1, Input, Label, Span } from "style-props-html";
+import { FaChevronDown, FaChevronUp, FaUndo } from "react-icons/fa";
+import {
+  customizerValuesEqual,
+  type CustomizerParameter,
+  type CustomizerValue,
+} from "../openscad-customizer";
+
+export interface CustomizerPanelProps {
+  parameters: CustomizerParameter[];
+  /** Overrides only; parameters missing here use their source default */
+  values: Record<string, CustomizerValue>;
+  onChange: (name: string, value: CustomizerValue | undefined) => void;
+  onReset: () => void;
+  /** Names of the parameter sets saved next to the file */
+  presets: string[];
+  /** Preset matching the current values, if any */
+  activePreset: string | null;
+  onSelectPreset: (name: string) => void;
+  onSavePreset: () => void;
+  onDeletePreset: (name: string) => void;
+  onExportPresets: () => void;
+  busy: boolean;
+}
+
+// Select value while the form matches neither the file nor a preset
+const UNSAVED_PRESET = "\u0000unsaved";
+
+function ParameterInput({
+  param,
+  value,
+  onChange,
+}: {
+  param: CustomizerParameter;
+  value: CustomizerValue;
+  onChange: (value: CustomizerValue) => void;
+}) {
+  const { widget } = param;
+  const id = `customizer-${param.name}`;
+
+  switch (widget.kind) {
+    case "checkbox":
+      return (
+        <Input
+          id={id}
+          type="checkbox"
+          checked={value as boolean}
+          onChange={(e) => onChange(e.currentTarget.checked)}
+        />
+      );
+    case "slider":
+      return (
+        <Span display="flex" alignItems="center" gap="6px">
+          <Input
+            id={id}
+            type="range"
+            min={widget.min}
+            max={widget.max}
+            step={widget.step ?? "any"}
+            value={value as number}
+            onChange={(e) => onChange(parseFloat(e.currentTarget.value))}
+          />
+          <Input
+            type="number"
+            width="5em"
+            step={widget.step ?? "any"}
+            value={value as number}
+            aria-label={param.name}
+            onChange={(e) => {
+              const n = parseFloat(e.currentTarget.value);
+              if (Number.isFinite(n)) onChange(n);
+            }}
+          />
+        </Span>
+      );
+    case "dropdown":
+      return (
+        <select
+          id={id}
+          value={widget.options.findIndex((o) => o.value === value)}
+          onChange={(e) => onChange(widget.options[+e.target.value].value)}
+        >
+          {widget.options.map((option, i) => (
+            <option key={i} value={i}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+    case "number":
+      return (
+        <Input
+          id={id}
+          type="number"
+          width="6em"
+          step="any"
+          value={value as number}
+          onChange={(e) => {
+            const n = parseFloat(e.currentTarget.value);
+            if (Number.isFinite(n)) onChange(n);
+          }}
+        />
+      );
+    case "vector":
+      return (
+        <Span display="flex" gap="4px">
+          {(value as number[]).map((item, i) => (
+            <Input
+              key={i}
+              id={i === 0 ? id : undefined}
+              type="number"
+              width="4.5em"
+              min={widget.min}
+              max={widget.max}
+              step={widget.step ?? "any"}
+              value={item}
+              aria-label={`${param.name}[${i}]`}
+              onChange={(e) => {
+                const n = parseFloat(e.currentTarget.value);
+                if (!Number.isFinite(n)) return;
+                const next = [...(value as number[])];
+                next[i] = n;
+                onChange(next);
+              }}
+            />
+          ))}
+        </Span>
+      );
+    case "text":
+      return (
+        <Input
+          id={id}
+          type="text"
+          maxLength={widget.maxLength}
+          value={value as string}
+          onChange={(e) => onChange(e.currentTarget.value)}
+        />
+      );
+  }
+}
+
+/**
+ * Floating form for the Customizer parameters of the active file. Values are
+ * passed to renders as `-D` overrides; the file itself is never edited.
+ */
+export default function CustomizerPanel({
+  parameters,
+  values,
+  onChange,
+  onReset,
+  presets,
+  activePreset,
+  onSelectPreset,
+  onSavePreset,
+  onDeletePreset,
+  onExportPresets,
+  busy,
+}: CustomizerPanelProps) {
+  const [open, setOpen] = useState(true);
+  const groups = new Map<string, CustomizerParameter[]>();
+  for (const param of parameters) {
+    if (!groups.has(param.group)) groups.set(param.group, []);
+    groups.get(param.group)!.push(param);
+  }
+  const overridden = parameters.filter((p) => values[p.name] !== undefined);
+
+  return (
+    <Div
+      position="absolute"
+      top="8px"
+      right="8px"
+      zIndex={5}
+      background="rgba(255, 255, 255, 0.92)"
+      padding="8px"
+      borderRadius="6px"
+      boxShadow="0 2px 8px rgba(0, 0, 0, 0.2)"
+      minWidth="220px"
+      maxWidth="45%"
+      maxHeight="70%"
+      overflow="auto"
+      fontSize="0.85rem"
+    >
+      <Div display="flex" alignItems="center" gap="8px">
+        <Button width="1.5rem" height="1.5rem" onClick={() => setOpen(!open)}>
+          {open ? (
+            <FaChevronUp style={{ fontSize: "0.8rem" }} />
+          ) : (
+            <FaChevronDown style={{ fontSize: "0.8rem" }} />
+          )}
+        </Button>
+        <H1 fontSize="1rem" margin="0" lineHeight="1.2" color="#222">
+          Customizer
+        </H1>
+        {overridden.length > 0 && (
+          <Button
+            marginLeft="auto"
+            fontSize="0.75rem"
+            padding="2px 6px"
+            title="Go back to the values in the file"
+            onClick={onReset}
+          >
+            Reset ({overridden.length})
+          </Button>
+        )}
+      </Div>
+      {open && (
+        <Div
+          display="flex"
+          alignItems="center"
+          flexWrap="wrap"
+          gap="6px"
+          marginTop="8px"
+          fontSize="0.75rem"
+        >
+          <Label htmlFor="customizer-preset">Preset</Label>
+          <select
+            id="customizer-preset"
+            value={
+              activePreset ?? (overridden.length ? UNSAVED_PRESET : "")
+            }
+            onChange={(e) => {
+              if (e.target.value) onSelectPreset(e.target.value);
+              else onReset();
+            }}
+          >
+            <option value="">(file defaults)</option>
+            {activePreset === null && overridden.length > 0 && (
+              <option value={UNSAVED_PRESET} disabled>
+                (unsaved changes)
+              </option>
+            )}
+            {presets.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <Button padding="2px 6px" onClick={onSavePreset}>
+            Save as…
+          </Button>
+          {activePreset && (
+            <Button
+              padding="2px 6px"
+              onClick={() => onDeletePreset(activePreset)}
+            >
+              Delete
+            </Button>
+          )}
+          {presets.length > 0 && (
+            <Button
+              padding="2px 6px"
+              disabled={busy}
+              title="Render every preset and save its parts to exports/<preset>/"
+              onClick={onExportPresets}
+            >
+              Export all presets
+            </Button>
+          )}
+        </Div>
+      )}
+      {open &&
+        [...groups.entries()].map(([group, params]) => (
+          <details key={group} open>
+            <summary style={{ cursor: "pointer", marginTop: "8px" }}>
+              {group}
+            </summary>
+            <Div
+              display="grid"
+              gridTemplateColumns="auto 1fr auto"
+              alignItems="center"
+              gap="4px 8px"
+              padding="4px 0 0 12px"
+            >
+              {params.map((param) => {
+                const override = values[param.name];
+                const value = override ?? param.defaultValue;
+                return (
+                  <Div key={param.name} display="contents">
+                    <Label
+                      htmlFor={`customizer-${param.name}`}
+                      title={param.description}
+                      fontWeight={override !== undefined ? "bold" : undefined}
+                    >
+                      {param.name}
+                    </Label>
+                    <ParameterInput
+                      param={param}
+                      value={value}
+                      onChange={(next) =>
+                        onChange(
+                          param.name,
+                          customizerValuesEqual(next, param.defaultValue)
+                            ? undefined
+                            : next
+                        )
+                      }
+                    />
+                    {override !== undefined ? (
+                      <Button
+                        width="1.25rem"
+                        height="1.25rem"
+                        title="Reset to the value in the file"
+                        onClick={() => onChange(param.name, undefined)}
+                      >
+                        <FaUndo style={{ fontSize: "0.6rem" }} />
+                      </Button>
+                    ) : (
+                      <Span />
+                    )}
+                  </Div>
+                );
+              })}
+            </Div>
+          </details>
+        ))}
+    </Div>
+  );
+}
@@ -1,10 +1,25 @@
 import { css } from "@emotion/react";
 import { Editor } from "@monaco-editor/react";
-import { forwardRef, RefObject, useEffect, useState } from "react";
-import { Button, Div, DivProps, H1, P, Span } from "style-props-html";
+import {
+  forwardRef,
+  ReactNode,
+  RefObject,
+  useEffect,
+  useState,
+} from "react";
+import {
+  Button,
+  Div,
+  DivProps,
+  H1,
+  Input,
+  Label,
+  P,
+  Span,
+} from "style-props-html";
 import { TabManager } from "../hooks/useEditorTabAgent";
 import { useRegisterOpenSCADLanguage } from "../openscad-lang";
-import { FaSave, FaTimes, FaBan } from "react-icons/fa";
+import { FaSave, FaTimes, FaBan, FaLock } from "react-icons/fa";
 import {
   getLanguageForFile,
   isBinaryFile,
@@ -21,10 +36,21 @@ import "@fontsource/fira-code/index.css";
 export interface EditorTabProps extends DivProps {
   agent: TabManager;
   containerRef: RefObject<HTMLDivElement | null>;
+  formatOnSave: boolean;
+  onFormatOnSaveChange: (enabled: boolean) => void;
+  /** Shown between the tab bar and the editor */
+  breadcrumbs?: ReactNode;
 }
 
 export default forwardRef<HTMLDivElement, EditorTabProps>(function EditorTab(
-  { agent, containerRef, ...rest },
+  {
+    agent,
+    containerRef,
+    formatOnSave,
+    onFormatOnSaveChange,
+    breadcrumbs,
+    ...rest
+  },
   ref
 ) {
   const showNoneSelectedDialog = !agent.fileIsLoaded;
@@ -55,7 +81,7 @@ export default forwardRef<HTMLDivElement, EditorTabProps>(function EditorTab(
       ref={ref}
       width={currentContainerWidth ? `${currentContainerWidth}` : "100%"}
       display="grid"
-      gridTemplateRows="auto 1fr"
+      gridTemplateRows={breadcrumbs ? "auto auto 1fr" : "auto 1fr"}
       gridTemplateColumns="1fr"
       height="100%"
       rowGap="0"
@@ -114,6 +140,12 @@ export default forwardRef<HTMLDivElement, EditorTabProps>(function EditorTab(
                 >
                   {tab.filename}
                 </Span>
+                {tab.readOnly && (
+                  <FaLock
+                    title={`${tab.filePath} (read-only)`}
+                    style={{ fontSize: "10px", color: "#999" }}
+                  />
+                )}
                 {tab.dirty && (
                   <Span
                     fontSize="10px"
@@ -158,9 +190,28 @@ export default forwardRef<HTMLDivElement, EditorTabProps>(function EditorTab(
         <Div
           display="flex"
           alignItems="center"
+          gap="6px"
           padding="0 6px"
           borderLeft="1px solid #ccc"
         >
+          {language === "openscad" && (
+            <Label
+              display="flex"
+              alignItems="center"
+              gap="3px"
+              fontSize="11px"
+              color="#666"
+              whiteSpace="nowrap"
+              title="Format the file (as with Format Document) when saving"
+            >
+              <Input
+                type="checkbox"
+                checked={formatOnSave}
+                onChange={(e) => onFormatOnSaveChange(e.currentTarget.checked)}
+              />
+              Format on save
+            </Label>
+          )}
           <Button
             disabled={!agent.dirty}
             borderRadius="50%"
@@ -182,6 +233,8 @@ export default forwardRef<HTMLDivElement, EditorTabProps>(function EditorTab(
         </Div>
       </Div>
 
+      {breadcrumbs}
+
       <Div width="100%" height="100%" position="relative" overflow="hidden">
         {/* Binary file placeholder */}
         {agent.fileIsLoaded && binary && (
@@ -236,6 +289,7 @@ export default forwardRef<HTMLDivElement, EditorTabProps>(function EditorTab(
               fontWeight: "400",
               renderWhitespace: "all",
               minimap: { enabled: false },
+              readOnly: agent.readOnly,
             }}
             language={language ?? "plaintext"}
             value={agent.code}
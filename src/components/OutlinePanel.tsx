@@ -0,0 +1,65 @@
+import type { ReactNode } from "react";
+import { Div, Span } from "style-props-html";
+import type { OutlineItem } from "../openscad-outline";
+import { OUTLINE_ICONS } from "./outlineIcons";
+
+export interface OutlinePanelProps {
+  items: OutlineItem[];
+  /** Items around the cursor, outermost first */
+  activePath: OutlineItem[];
+  onSelect: (item: OutlineItem) => void;
+}
+
+/**
+ * Modules, functions, variables and export parts of the file in the editor.
+ * Clicking one moves the cursor there.
+ */
+export default function OutlinePanel({
+  items,
+  activePath,
+  onSelect,
+}: OutlinePanelProps) {
+  const active = activePath[activePath.length - 1];
+
+  const renderItem = (item: OutlineItem, depth: number): ReactNode => (
+    <Div key={`${item.kind}:${item.name}:${item.selectionRange.startLine}`}>
+      <Div
+        display="flex"
+        alignItems="center"
+        gap="6px"
+        padding={`1px 8px 1px ${8 + depth * 14}px`}
+        fontSize="0.85rem"
+        cursor="pointer"
+        background={item === active ? "#d6e4f5" : undefined}
+        title={item.detail || item.name}
+        onClick={() => onSelect(item)}
+      >
+        {OUTLINE_ICONS[item.kind]}
+        <Span whiteSpace="nowrap">{item.name}</Span>
+        {item.detail && item.kind !== "module" && item.kind !== "function" && (
+          <Span color="#888" whiteSpace="nowrap" overflow="hidden">
+            {item.detail}
+          </Span>
+        )}
+      </Div>
+      {item.children.map((child) => renderItem(child, depth + 1))}
+    </Div>
+  );
+
+  return (
+    <details open style={{ borderTop: "1px solid #ccc" }}>
+      <summary style={{ cursor: "pointer", padding: "4px 8px" }}>
+        Outline
+      </summary>
+      <Div maxHeight="30vh" overflow="auto" paddingBottom="4px">
+        {items.length ? (
+          items.map((item) => renderItem(item, 0))
+        ) : (
+          <Div padding="2px 8px" fontSize="0.85rem" color="#888">
+            No symbols
+          </Div>
+        )}
+      </Div>
+    </details>
+  );
+}
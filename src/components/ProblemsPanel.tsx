@@ -0,0 +1,66 @@
+import type { ReactNode } from "react";
+import { Div, Span } from "style-props-html";
+import {
+  FaExclamationTriangle,
+  FaInfoCircle,
+  FaTimesCircle,
+} from "react-icons/fa";
+import type {
+  DiagnosticSeverity,
+  OpenSCADDiagnostic,
+} from "../utils/openscadDiagnostics";
+import { diagnosticKey } from "../utils/openscadDiagnostics";
+
+export interface ProblemsPanelProps {
+  diagnostics: OpenSCADDiagnostic[];
+  /** Called for problems that have a location */
+  onOpen: (diagnostic: OpenSCADDiagnostic) => void;
+}
+
+const ICONS: Record<DiagnosticSeverity, ReactNode> = {
+  error: <FaTimesCircle color="#e51400" />,
+  warning: <FaExclamationTriangle color="#bf8803" />,
+  info: <FaInfoCircle color="#1a85ff" />,
+};
+
+/**
+ * Errors and warnings from the last render. Clicking one with a location
+ * opens the file at that line.
+ */
+export default function ProblemsPanel({
+  diagnostics,
+  onOpen,
+}: ProblemsPanelProps) {
+  if (!diagnostics.length) return null;
+  const count = (severity: DiagnosticSeverity) =>
+    diagnostics.filter((d) => d.severity === severity).length;
+
+  return (
+    <details open style={{ flexShrink: 0, maxHeight: "40%", overflow: "auto" }}>
+      <summary style={{ cursor: "pointer", padding: "2px 4px" }}>
+        Problems ({count("error")} errors, {count("warning")} warnings)
+      </summary>
+      {diagnostics.map((d) => (
+        <Div
+          key={diagnosticKey(d)}
+          display="flex"
+          alignItems="center"
+          gap="6px"
+          padding="2px 8px"
+          fontSize="0.85rem"
+          cursor={d.line !== undefined ? "pointer" : "default"}
+          title={d.file ? `${d.file}:${d.line}` : undefined}
+          onClick={() => d.line !== undefined && onOpen(d)}
+        >
+          {ICONS[d.severity]}
+          <Span flex="1">{d.message}</Span>
+          {d.file && (
+            <Span color="#666" whiteSpace="nowrap">
+              {d.file}:{d.line}
+            </Span>
+          )}
+        </Div>
+      ))}
+    </details>
+  );
+}
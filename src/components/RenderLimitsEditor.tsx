@@ -0,0 +1,78 @@
+import { Div, Input, Label, Span } from "style-props-html";
+import type { Backend } from "../openscad-protocol";
+import type {
+  BackendRenderLimits,
+  RenderLimits,
+} from "../utils/renderLimits";
+
+export interface RenderLimitsEditorProps {
+  limits: BackendRenderLimits;
+  onChange: (limits: BackendRenderLimits) => void;
+}
+
+const BACKENDS: Backend[] = ["Manifold", "CGAL"];
+
+const parseLimit = (raw: string): number | null => {
+  const value = parseFloat(raw);
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+/**
+ * Collapsible per-backend editor for the render watchdog. An empty field
+ * means "no limit".
+ */
+export default function RenderLimitsEditor({
+  limits,
+  onChange,
+}: RenderLimitsEditorProps) {
+  const update = (backend: Backend, patch: Partial<RenderLimits>) =>
+    onChange({ ...limits, [backend]: { ...limits[backend], ...patch } });
+
+  return (
+    <details>
+      <summary style={{ cursor: "pointer" }}>Render limits</summary>
+      <Div
+        display="grid"
+        gridTemplateColumns="auto auto auto"
+        alignItems="center"
+        gap="4px 8px"
+        padding="4px 0"
+      >
+        <Span />
+        <Span>Timeout (s)</Span>
+        <Span>Heap growth (MB)</Span>
+        {BACKENDS.map((backend) => (
+          <Div key={backend} display="contents">
+            <Label htmlFor={`render-limit-timeout-${backend}`}>{backend}</Label>
+            <Input
+              id={`render-limit-timeout-${backend}`}
+              type="number"
+              min={1}
+              width="6em"
+              value={limits[backend].timeoutSeconds ?? ""}
+              placeholder="no limit"
+              onChange={(e) =>
+                update(backend, {
+                  timeoutSeconds: parseLimit(e.currentTarget.value),
+                })
+              }
+            />
+            <Input
+              type="number"
+              min={1}
+              width="6em"
+              value={limits[backend].maxHeapGrowthMB ?? ""}
+              placeholder="no limit"
+              aria-label={`${backend} heap growth limit`}
+              onChange={(e) =>
+                update(backend, {
+                  maxHeapGrowthMB: parseLimit(e.currentTarget.value),
+                })
+              }
+            />
+          </Div>
+        ))}
+      </Div>
+    </details>
+  );
+}
@@ -0,0 +1,12 @@
+import type { ReactNode } from "react";
+import { FaBoxOpen, FaCode, FaCube, FaEquals, FaFolder } from "react-icons/fa";
+import type { OutlineKind } from "../openscad-outline";
+
+/** Icons for outline items, shared by the outline panel and breadcrumbs */
+export const OUTLINE_ICONS: Record<OutlineKind, ReactNode> = {
+  module: <FaCube color="#0e7c6b" />,
+  function: <FaCode color="#8a6d00" />,
+  variable: <FaEquals color="#1a6fb3" />,
+  part: <FaBoxOpen color="#b5651d" />,
+  group: <FaFolder color="#888" />,
+};
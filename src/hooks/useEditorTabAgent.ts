@@ -5,17 +5,19 @@ import {
   useState,
 } from "react";
 
-import { OnMount } from "@monaco-editor/react";
+import { OnMount, useMonaco } from "@monaco-editor/react";
 import { saveFile } from "../utils/fsaUtils";
-import type { SelectionRange } from "../utils/fsaUtils";
-import { isBinaryFile } from "../utils/fileTypes";
+import type { FoldedRegion, SelectionRange } from "../utils/fsaUtils";
+import { isBinaryFile, isScadFile } from "../utils/fileTypes";
 
 export type MonacoEditorInterface = Parameters<OnMount>[0];
 
 export type TabState = {
   filePath: string;
   filename: string;
-  fileHandle: FileSystemFileHandle;
+  /** Null for read-only files from outside the project (e.g. /SFLibs) */
+  fileHandle: FileSystemFileHandle | null;
+  readOnly: boolean;
   code: string;
   lastLoadedCode: string;
   dirty: boolean;
@@ -23,8 +25,24 @@ export type TabState = {
   scrollTop: number;
   cursorPosition: { lineNumber: number; column: number };
   selections: SelectionRange[];
+  foldedRegions: FoldedRegion[];
 };
 
+/**
+ * A problem to underline in a file. Without columns the whole line is marked.
+ */
+export type EditorMarker = {
+  severity: "error" | "warning" | "info";
+  message: string;
+  startLineNumber: number;
+  startColumn?: number;
+  endLineNumber?: number;
+  endColumn?: number;
+};
+
+/** Markers by project-relative file path */
+export type FileMarkers = Record<string, EditorMarker[]>;
+
 export type TabLoadData = {
   handle: FileSystemFileHandle;
   path: string;
@@ -33,6 +51,7 @@ export type TabLoadData = {
   scrollTop?: number;
   cursorPosition?: { lineNumber: number; column: number };
   selections?: SelectionRange[];
+  foldedRegions?: FoldedRegion[];
 };
 
 export interface TabManager {
@@ -47,6 +66,7 @@ export interface TabManager {
   dirty: boolean;
   fileIsLoaded: boolean;
   isPreview: boolean;
+  readOnly: boolean;
 
   // Monaco integration
   storeEditor: (editor: MonacoEditorInterface) => void;
@@ -59,10 +79,38 @@ export interface TabManager {
   switchTab: (index: number) => void;
   closeTab: (index: number) => Promise<"closed" | "cancelled">;
   saveCurrentFile: () => Promise<void>;
+  /** Replace the code of an open tab, leaving it unsaved */
+  setTabCode: (path: string, code: string) => void;
 
   // Viewport restoration (for IndexedDB load on startup)
   setScrollTop: (scrollTop: number) => void;
   setCursorPosition: (lineNumber: number, column: number) => void;
+  focusEditor: () => void;
+
+  /**
+   * Open a file from outside the project (e.g. a /SFLibs library) in a
+   * read-only tab, with the cursor at the given position.
+   */
+  openReadOnly: (
+    path: string,
+    content: string,
+    lineNumber?: number,
+    column?: number
+  ) => void;
+
+  /** Open (or switch to) a file and put the cursor at the given position */
+  openFileAt: (
+    handle: FileSystemFileHandle,
+    path: string,
+    lineNumber: number,
+    column?: number
+  ) => Promise<void>;
+
+  /**
+   * Replace the markers of one source (`owner`), e.g. render errors. They are
+   * shown on whichever tab has the matching path.
+   */
+  setMarkers: (owner: string, markers: FileMarkers) => void;
 
   // Bulk load for persistence restoration
   loadTabs: (tabData: TabLoadData[], activeIndex: number) => void;
@@ -70,8 +118,43 @@ export interface TabManager {
 
 const isMac = () => navigator.platform.toUpperCase().indexOf("MAC") >= 0;
 
+// Fold state isn't part of Monaco's API, but its view state carries it
+const FOLDING_CONTRIBUTION = "editor.contrib.folding";
+type FoldingViewState = { collapsedRegions?: FoldedRegion[] };
+
+function readFoldedRegions(editor: MonacoEditorInterface): FoldedRegion[] {
+  const state = editor.saveViewState()?.contributionsState[
+    FOLDING_CONTRIBUTION
+  ] as FoldingViewState | undefined;
+  return (state?.collapsedRegions ?? []).map(
+    ({ startLineNumber, endLineNumber, checksum }) => ({
+      startLineNumber,
+      endLineNumber,
+      checksum,
+    })
+  );
+}
+
+function applyFoldedRegions(
+  editor: MonacoEditorInterface,
+  regions: FoldedRegion[]
+) {
+  const state = editor.saveViewState();
+  if (!state || !regions.length) return;
+  editor.restoreViewState({
+    ...state,
+    contributionsState: {
+      ...state.contributionsState,
+      [FOLDING_CONTRIBUTION]: {
+        ...(state.contributionsState[FOLDING_CONTRIBUTION] as object),
+        collapsedRegions: regions.map((r) => ({ ...r, isCollapsed: true })),
+      },
+    },
+  });
+}
+
 function createTab(
-  handle: FileSystemFileHandle,
+  handle: FileSystemFileHandle | null,
   path: string,
   content: string,
   isPreview: boolean,
@@ -79,12 +162,14 @@ function createTab(
     scrollTop?: number;
     cursorPosition?: { lineNumber: number; column: number };
     selections?: SelectionRange[];
+    foldedRegions?: FoldedRegion[];
   }
 ): TabState {
   return {
     filePath: path,
-    filename: handle.name,
+    filename: handle?.name ?? path.split("/").pop() ?? path,
     fileHandle: handle,
+    readOnly: handle === null,
     code: content,
     lastLoadedCode: content,
     dirty: false,
@@ -92,6 +177,7 @@ function createTab(
     scrollTop: viewport?.scrollTop ?? 0,
     cursorPosition: viewport?.cursorPosition ?? { lineNumber: 1, column: 1 },
     selections: viewport?.selections ?? [],
+    foldedRegions: viewport?.foldedRegions ?? [],
   };
 }
 
@@ -99,6 +185,9 @@ export default function useTabManager({
   onScrollChange,
   onCursorChange,
   onSelectionChange,
+  onFoldingChange,
+  onSave,
+  formatOnSave = false,
 }: {
   onScrollChange?: (filePath: string, scrollTop: number) => void;
   onCursorChange?: (
@@ -107,11 +196,20 @@ export default function useTabManager({
     column: number
   ) => void;
   onSelectionChange?: (filePath: string, selections: SelectionRange[]) => void;
+  onFoldingChange?: (filePath: string, regions: FoldedRegion[]) => void;
+  /** Called after saveCurrentFile successfully writes the active tab */
+  onSave?: (filePath: string, code: string) => void;
+  /** Run Format Document on .scad files before saving them */
+  formatOnSave?: boolean;
 }): TabManager {
   const [tabs, setTabs] = useState<TabState[]>([]);
   const [activeTabIndex, setActiveTabIndex] = useState<number>(-1);
   const editorRef = useRef<MonacoEditorInterface | null>(null);
   const [editorLoaded, setEditorLoaded] = useState(false);
+  const monaco = useMonaco();
+  const [markersByOwner, setMarkersByOwner] = useState<
+    Record<string, FileMarkers>
+  >({});
   const suppressNextChangeRef = useRef(false);
 
   // Refs for synchronous access (updated in tandem with state)
@@ -153,6 +251,7 @@ export default function useTabManager({
   const dirty = activeTab?.dirty ?? false;
   const fileIsLoaded = activeTab !== null;
   const isPreview = activeTab?.isPreview ?? false;
+  const readOnly = activeTab?.readOnly ?? false;
 
   // --- Editor value swap (suppresses onChange) ---
 
@@ -191,6 +290,7 @@ export default function useTabManager({
             endColumn: s.endColumn,
           }))
         : next[idx].selections,
+      foldedRegions: readFoldedRegions(editor),
     };
     return next;
   }, []);
@@ -202,6 +302,7 @@ export default function useTabManager({
     if (!editor) return;
     // Defer so Monaco processes the new content from setValue first
     requestAnimationFrame(() => {
+      applyFoldedRegions(editor, tab.foldedRegions);
       editor.setScrollTop(tab.scrollTop);
       editor.setPosition(tab.cursorPosition);
       if (tab.selections.length > 0) {
@@ -230,8 +331,9 @@ export default function useTabManager({
           tab.cursorPosition.column
         );
       if (onSelectionChange) onSelectionChange(tab.filePath, tab.selections);
+      if (onFoldingChange) onFoldingChange(tab.filePath, tab.foldedRegions);
     },
-    [onScrollChange, onCursorChange, onSelectionChange]
+    [onScrollChange, onCursorChange, onSelectionChange, onFoldingChange]
   );
 
   // --- Tab operations ---
@@ -397,8 +499,19 @@ export default function useTabManager({
     const currentTabs = tabsRef.current;
     if (idx < 0 || idx >= currentTabs.length) return;
     const tab = currentTabs[idx];
+    if (!tab.fileHandle) return;
+
+    let code = tab.code;
+    if (formatOnSave && isScadFile(tab.filePath) && editorRef.current) {
+      // Formatting edits the editor, so it can be undone like any edit; the
+      // change handler puts the result in the tab
+      await editorRef.current.getAction("editor.action.formatDocument")?.run();
+      const latest = tabsRef.current[activeTabIndexRef.current];
+      if (latest?.filePath !== tab.filePath) return;
+      code = latest.code;
+    }
 
-    const didSave = await saveFile(tab.fileHandle, tab.code);
+    const didSave = await saveFile(tab.fileHandle, code);
     if (didSave) {
       const next = [...tabsRef.current];
       const latestIdx = activeTabIndexRef.current;
@@ -410,8 +523,9 @@ export default function useTabManager({
         };
         commitTabs(next, latestIdx);
       }
+      onSave?.(tab.filePath, code);
     }
-  }, [commitTabs]);
+  }, [commitTabs, onSave, formatOnSave]);
 
   const closeTab = useCallback(
     async (index: number): Promise<"closed" | "cancelled"> => {
@@ -426,7 +540,7 @@ export default function useTabManager({
       }
 
       // Dirty tab prompt: Save / Don't Save / Cancel
-      if (tab.dirty) {
+      if (tab.dirty && tab.fileHandle) {
         const shouldSave = window.confirm(
           `"${tab.filename}" has unsaved changes.\n\nPress OK to save before closing, or Cancel to keep editing.`
         );
@@ -514,6 +628,31 @@ export default function useTabManager({
     setTabs(next);
   }, []);
 
+  const setTabCode = useCallback((path: string, newCode: string) => {
+    const currentTabs = tabsRef.current;
+    const idx = currentTabs.findIndex((t) => t.filePath === path);
+    if (idx === -1) return;
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (idx === activeTabIndexRef.current && editor && model) {
+      // Through the editor, so it can be undone; handleEditorChange follows
+      editor.executeEdits("setTabCode", [
+        { range: model.getFullModelRange(), text: newCode },
+      ]);
+      return;
+    }
+    const tab = currentTabs[idx];
+    const next = [...currentTabs];
+    next[idx] = {
+      ...tab,
+      code: newCode,
+      dirty: newCode !== tab.lastLoadedCode,
+      isPreview: false,
+    };
+    tabsRef.current = next;
+    setTabs(next);
+  }, []);
+
   const storeEditor = useCallback((editor: MonacoEditorInterface) => {
     editorRef.current = editor;
   }, []);
@@ -553,6 +692,8 @@ export default function useTabManager({
     []
   );
 
+  const focusEditor = useCallback(() => editorRef.current?.focus(), []);
+
   // Apply pending viewport when editor becomes ready
   useEffect(() => {
     if (!editorLoaded || !editorRef.current) return;
@@ -571,6 +712,100 @@ export default function useTabManager({
     }
   }, [editorLoaded]);
 
+  const openReadOnly = useCallback(
+    (path: string, content: string, lineNumber = 1, column = 1) => {
+      const currentTabs = tabsRef.current;
+      const existingIdx = currentTabs.findIndex((t) => t.filePath === path);
+      if (existingIdx !== -1) {
+        switchTab(existingIdx);
+      } else {
+        const newTab = createTab(null, path, content, false);
+        const snapshotted = snapshotActiveTab();
+        const currentActive = activeTabIndexRef.current;
+        const insertAt = currentActive >= 0 ? currentActive + 1 : 0;
+        const next = [...snapshotted];
+        next.splice(insertAt, 0, newTab);
+        commitTabs(next, insertAt);
+        setEditorValue(content);
+        restoreTabViewport(newTab);
+      }
+      // Queued after the viewport restore of the tab switch
+      requestAnimationFrame(() => {
+        setCursorPosition(lineNumber, column);
+        editorRef.current?.focus();
+      });
+    },
+    [
+      switchTab,
+      snapshotActiveTab,
+      commitTabs,
+      setEditorValue,
+      restoreTabViewport,
+      setCursorPosition,
+    ]
+  );
+
+  const openFileAt = useCallback(
+    async (
+      handle: FileSystemFileHandle,
+      path: string,
+      lineNumber: number,
+      column = 1
+    ) => {
+      await openFilePermanent(handle, path);
+      if (isBinaryFile(handle.name)) return;
+      // Queued after the viewport restore of the tab switch
+      requestAnimationFrame(() => {
+        setCursorPosition(lineNumber, column);
+        editorRef.current?.focus();
+      });
+    },
+    [openFilePermanent, setCursorPosition]
+  );
+
+  // --- Markers ---
+
+  const setMarkers = useCallback((owner: string, markers: FileMarkers) => {
+    setMarkersByOwner((prev) => ({ ...prev, [owner]: markers }));
+  }, []);
+
+  // There is a single model shared by all tabs, so its markers are replaced
+  // with the active file's whenever the tab or the markers change
+  useEffect(() => {
+    const model = editorLoaded ? editorRef.current?.getModel() : null;
+    if (!monaco || !model) return;
+    const severities = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info,
+    };
+    const lineCount = model.getLineCount();
+    for (const [owner, byPath] of Object.entries(markersByOwner)) {
+      const markers = (filePath && byPath[filePath]) || [];
+      monaco.editor.setModelMarkers(
+        model,
+        owner,
+        markers.map((m) => {
+          const startLineNumber = Math.min(m.startLineNumber, lineCount);
+          const endLineNumber = Math.min(
+            m.endLineNumber ?? startLineNumber,
+            lineCount
+          );
+          return {
+            severity: severities[m.severity],
+            message: m.message,
+            startLineNumber,
+            startColumn:
+              m.startColumn ??
+              (model.getLineFirstNonWhitespaceColumn(startLineNumber) || 1),
+            endLineNumber,
+            endColumn: m.endColumn ?? model.getLineMaxColumn(endLineNumber),
+          };
+        })
+      );
+    }
+  }, [monaco, editorLoaded, filePath, activeTabIndex, markersByOwner]);
+
   // --- Scroll / cursor / selection change listeners ---
 
   useEffect(() => {
@@ -620,6 +855,18 @@ export default function useTabManager({
     return () => disposable.dispose();
   }, [editorLoaded, onSelectionChange]);
 
+  useEffect(() => {
+    if (!editorLoaded || !editorRef.current || !onFoldingChange) return;
+    const editor = editorRef.current;
+    const disposable = editor.onDidChangeHiddenAreas(() => {
+      const fp =
+        tabsRef.current[activeTabIndexRef.current]?.filePath;
+      if (!fp) return;
+      onFoldingChange(fp, readFoldedRegions(editor));
+    });
+    return () => disposable.dispose();
+  }, [editorLoaded, onFoldingChange]);
+
   // --- Ctrl+S / Cmd+S ---
 
   const onCtrlS = useCallback(() => {
@@ -655,6 +902,7 @@ export default function useTabManager({
           scrollTop: d.scrollTop,
           cursorPosition: d.cursorPosition,
           selections: d.selections,
+          foldedRegions: d.foldedRegions,
         })
       );
 
@@ -687,6 +935,7 @@ export default function useTabManager({
     dirty,
     fileIsLoaded,
     isPreview,
+    readOnly,
     storeEditor,
     handleEditorChange,
     layoutEditor,
@@ -695,8 +944,13 @@ export default function useTabManager({
     switchTab,
     closeTab,
     saveCurrentFile,
+    setTabCode,
     setScrollTop,
     setCursorPosition,
+    focusEditor,
+    openReadOnly,
+    openFileAt,
+    setMarkers,
     loadTabs,
   };
 }
@@ -0,0 +1,74 @@
+import { useMemo, useRef } from "react";
+import { SourceIndex } from "../openscad-index";
+import { getFileHandleByPath } from "../utils/fsaUtils";
+import { isScadFile } from "../utils/fileTypes";
+import type { TabState } from "./useEditorTabAgent";
+
+async function listScadFiles(
+  handle: FileSystemDirectoryHandle,
+  basePath = ""
+): Promise<string[]> {
+  const paths: string[] = [];
+  for await (const [name, entry] of handle.entries()) {
+    const path = basePath ? `${basePath}/${name}` : name;
+    if (entry.kind === "directory") {
+      if (name.startsWith(".")) continue;
+      const dir = entry as FileSystemDirectoryHandle;
+      paths.push(...(await listScadFiles(dir, path)));
+    } else if (isScadFile(name)) {
+      paths.push(path);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Index of the project's OpenSCAD sources for editor features. Open tabs are
+ * read from their (possibly unsaved) buffers, other project files from disk
+ * and absolute paths such as /SFLibs/... from the server.
+ */
+export default function useSourceIndex(
+  projectHandle: FileSystemDirectoryHandle | null,
+  tabs: TabState[]
+): SourceIndex {
+  const tabsRef = useRef(tabs);
+  tabsRef.current = tabs;
+
+  return useMemo(() => {
+    // Library files don't change while the app runs
+    const external = new Map<string, Promise<string | null>>();
+    const fetchExternal = (path: string) => {
+      let pending = external.get(path);
+      if (!pending) {
+        pending = fetch(path)
+          .then((response) => (response.ok ? response.text() : null))
+          .catch(() => null);
+        external.set(path, pending);
+      }
+      return pending;
+    };
+
+    const load = async (path: string) => {
+      if (!isScadFile(path)) return null;
+      if (path.startsWith("/")) return fetchExternal(path);
+      const tab = tabsRef.current.find((t) => t.filePath === path);
+      if (tab) return tab.code;
+      if (!projectHandle) return null;
+      try {
+        const handle = await getFileHandleByPath(projectHandle, path);
+        return handle ? await (await handle.getFile()).text() : null;
+      } catch {
+        return null;
+      }
+    };
+    const list = async () => {
+      if (!projectHandle) return [];
+      try {
+        return await listScadFiles(projectHandle);
+      } catch {
+        return [];
+      }
+    };
+    return new SourceIndex(load, list);
+  }, [projectHandle]);
+}
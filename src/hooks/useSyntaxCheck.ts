@@ -0,0 +1,72 @@
+import { useEffect, useRef } from "react";
+import type {
+  SyntaxCheckRequest,
+  SyntaxCheckResult,
+} from "../openscad-protocol";
+import { isScadFile } from "../utils/fileTypes";
+import type { FileMarkers } from "./useEditorTabAgent";
+
+/** Quiet time after the last keystroke before a check starts */
+const DEBOUNCE_MS = 300;
+
+export const SYNTAX_MARKER_OWNER = "openscad-syntax";
+
+/**
+ * Check the active `.scad` tab for syntax errors while the user types, using
+ * OpenSCAD itself in a background worker, and show them as editor markers.
+ */
+export default function useSyntaxCheck(
+  filePath: string | null,
+  code: string,
+  setMarkers: (owner: string, markers: FileMarkers) => void
+) {
+  const workerRef = useRef<Worker | null>(null);
+  // Only the answer to the newest request is shown
+  const latestRef = useRef<{ id: number; path: string | null }>({
+    id: 0,
+    path: null,
+  });
+
+  useEffect(() => {
+    const worker = new Worker(
+      new URL("../openscad-syntax.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.onmessage = (event: MessageEvent<SyntaxCheckResult>) => {
+      const { id, diagnostics } = event.data;
+      const latest = latestRef.current;
+      if (id !== latest.id || !latest.path) return;
+      setMarkers(SYNTAX_MARKER_OWNER, {
+        [latest.path]: diagnostics.map(({ severity, message, line }) => ({
+          severity,
+          message,
+          startLineNumber: line ?? 1,
+        })),
+      });
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [setMarkers]);
+
+  useEffect(() => {
+    if (!filePath || !isScadFile(filePath)) {
+      latestRef.current = { id: latestRef.current.id + 1, path: null };
+      setMarkers(SYNTAX_MARKER_OWNER, {});
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      const id = latestRef.current.id + 1;
+      latestRef.current = { id, path: filePath };
+      workerRef.current?.postMessage({
+        command: "syntax",
+        id,
+        path: filePath,
+        source: code,
+      } as SyntaxCheckRequest);
+    }, DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [filePath, code, setMarkers]);
+}
@@ -0,0 +1,320 @@
+/**
+ * Syntax tree produced by `parseOpenSCAD`. Every node carries the source range
+ * it was parsed from.
+ */
+import type { Comment, SourceRange, SyntaxProblem } from "./openscad-lexer";
+
+type NodeBase = {
+  range: SourceRange;
+};
+
+export type Identifier = NodeBase & {
+  type: "Identifier";
+  name: string;
+};
+
+// ---- Expressions ----
+
+export type NumberLiteral = NodeBase & {
+  type: "Number";
+  value: number;
+  raw: string;
+};
+
+export type StringLiteral = NodeBase & {
+  type: "String";
+  value: string;
+  raw: string;
+};
+
+export type BooleanLiteral = NodeBase & {
+  type: "Boolean";
+  value: boolean;
+};
+
+export type UndefLiteral = NodeBase & {
+  type: "Undef";
+};
+
+export type VectorExpression = NodeBase & {
+  type: "Vector";
+  elements: ListElement[];
+};
+
+/** `[start : end]` or `[start : step : end]` */
+export type RangeExpression = NodeBase & {
+  type: "Range";
+  start: Expression;
+  step?: Expression;
+  end: Expression;
+};
+
+export type UnaryExpression = NodeBase & {
+  type: "Unary";
+  operator: "!" | "-" | "+";
+  operand: Expression;
+};
+
+export type BinaryOperator =
+  | "||"
+  | "&&"
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "^";
+
+export type BinaryExpression = NodeBase & {
+  type: "Binary";
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+};
+
+export type TernaryExpression = NodeBase & {
+  type: "Ternary";
+  condition: Expression;
+  consequent: Expression;
+  alternate: Expression;
+};
+
+export type CallExpression = NodeBase & {
+  type: "Call";
+  callee: Expression;
+  args: Argument[];
+};
+
+export type IndexExpression = NodeBase & {
+  type: "Index";
+  object: Expression;
+  index: Expression;
+};
+
+/** `v.x`, `v.y`, `v.z` */
+export type MemberExpression = NodeBase & {
+  type: "Member";
+  object: Expression;
+  property: Identifier;
+};
+
+export type LetExpression = NodeBase & {
+  type: "Let";
+  assignments: Argument[];
+  body: Expression;
+};
+
+/** `assert(...) expr` and `echo(...) expr`; the body may be left out */
+export type AssertExpression = NodeBase & {
+  type: "Assert" | "Echo";
+  args: Argument[];
+  body?: Expression;
+};
+
+export type FunctionLiteral = NodeBase & {
+  type: "FunctionLiteral";
+  params: Parameter[];
+  body: Expression;
+};
+
+export type ParenthesizedExpression = NodeBase & {
+  type: "Parenthesized";
+  expression: Expression;
+};
+
+export type Expression =
+  | Identifier
+  | NumberLiteral
+  | StringLiteral
+  | BooleanLiteral
+  | UndefLiteral
+  | VectorExpression
+  | RangeExpression
+  | UnaryExpression
+  | BinaryExpression
+  | TernaryExpression
+  | CallExpression
+  | IndexExpression
+  | MemberExpression
+  | LetExpression
+  | AssertExpression
+  | FunctionLiteral
+  | ParenthesizedExpression;
+
+// ---- List comprehensions (only inside `[...]`) ----
+
+/**
+ * `for (i = [0:3]) body`, or the C-style
+ * `for (i = 0; i < 3; i = i + 1) body` when `condition` is set.
+ */
+export type ForElement = NodeBase & {
+  type: "ForElement";
+  assignments: Argument[];
+  condition?: Expression;
+  update?: Argument[];
+  body: ListElement;
+};
+
+export type IfElement = NodeBase & {
+  type: "IfElement";
+  condition: Expression;
+  consequent: ListElement;
+  alternate?: ListElement;
+};
+
+export type LetElement = NodeBase & {
+  type: "LetElement";
+  assignments: Argument[];
+  body: ListElement;
+};
+
+export type EachElement = NodeBase & {
+  type: "EachElement";
+  body: ListElement;
+};
+
+export type ListElement =
+  Expression | ForElement | IfElement | LetElement | EachElement;
+
+// ---- Arguments and parameters ----
+
+/** `value` or `name = value` in a call */
+export type Argument = NodeBase & {
+  type: "Argument";
+  name?: Identifier;
+  value: Expression;
+};
+
+export type Parameter = NodeBase & {
+  type: "Parameter";
+  name: Identifier;
+  defaultValue?: Expression;
+};
+
+// ---- Statements ----
+
+export type IncludeStatement = NodeBase & {
+  type: "Include";
+  kind: "include" | "use";
+  /** Path between the angle brackets */
+  path: string;
+  /** Range of `<path>`, brackets included */
+  pathRange: SourceRange;
+};
+
+export type AssignmentStatement = NodeBase & {
+  type: "Assignment";
+  name: Identifier;
+  value: Expression;
+};
+
+export type ModuleDefinition = NodeBase & {
+  type: "ModuleDefinition";
+  name: Identifier;
+  params: Parameter[];
+  body: Statement;
+};
+
+export type FunctionDefinition = NodeBase & {
+  type: "FunctionDefinition";
+  name: Identifier;
+  params: Parameter[];
+  body: Expression;
+};
+
+export type Modifier = "!" | "#" | "%" | "*";
+
+/**
+ * `name(args) child`. `for`, `let`, `echo` and `assert` at statement level
+ * are instantiations too, as in OpenSCAD's own grammar. `child` is null when
+ * the instantiation ends with `;`.
+ */
+export type ModuleInstantiation = NodeBase & {
+  type: "ModuleInstantiation";
+  modifiers: Modifier[];
+  name: Identifier;
+  args: Argument[];
+  child: Statement | null;
+};
+
+export type IfStatement = NodeBase & {
+  type: "If";
+  modifiers: Modifier[];
+  condition: Expression;
+  consequent: Statement;
+  alternate?: Statement;
+};
+
+export type BlockStatement = NodeBase & {
+  type: "Block";
+  statements: Statement[];
+};
+
+export type EmptyStatement = NodeBase & {
+  type: "Empty";
+};
+
+export type Statement =
+  | IncludeStatement
+  | AssignmentStatement
+  | ModuleDefinition
+  | FunctionDefinition
+  | ModuleInstantiation
+  | IfStatement
+  | BlockStatement
+  | EmptyStatement;
+
+export type Program = NodeBase & {
+  type: "Program";
+  statements: Statement[];
+  comments: Comment[];
+  /** Lexer and parser errors, in source order */
+  errors: SyntaxProblem[];
+};
+
+export type Node = Program | Statement | ListElement | Argument | Parameter;
+
+function isNode(value: unknown): value is Node {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { type?: unknown }).type === "string"
+  );
+}
+
+/**
+ * Call `callback` for each direct child node of `node`, in source order.
+ */
+export function forEachChild(node: Node, callback: (child: Node) => void) {
+  for (const value of Object.values(node)) {
+    if (Array.isArray(value)) {
+      for (const item of value) if (isNode(item)) callback(item);
+    } else if (isNode(value)) {
+      callback(value);
+    }
+  }
+}
+
+/**
+ * Depth-first walk over `node` and its descendants. Returning `false` from
+ * `enter` skips the children of that node.
+ */
+export function walk(
+  node: Node,
+  enter: (node: Node, parents: readonly Node[]) => void | false
+) {
+  const parents: Node[] = [];
+  const visit = (current: Node) => {
+    if (enter(current, parents) === false) return;
+    parents.push(current);
+    forEachChild(current, visit);
+    parents.pop();
+  };
+  visit(node);
+}
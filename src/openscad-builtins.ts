@@ -0,0 +1,384 @@
+/**
+ * OpenSCAD's built-in modules, functions and special variables, for editor
+ * completion and help.
+ */
+
+export type BuiltinKind = "module" | "function" | "variable" | "constant";
+
+/** A parameter as shown in signatures */
+export type SignatureParameter = {
+  name: string;
+  /** Source text of the default; unset for the parameters a call needs */
+  defaultValue?: string;
+};
+
+export type BuiltinSymbol = {
+  name: string;
+  kind: BuiltinKind;
+  params: SignatureParameter[];
+  /** Takes any number of arguments, e.g. `str(...)` */
+  variadic?: boolean;
+  /** Modules only: whether it acts on children (`translate(v) cube();`) */
+  children?: boolean;
+  /** Snippet for the arguments, when the required parameters aren't enough */
+  argsSnippet?: string;
+  doc: string;
+};
+
+// "size, center=false" -> parameters
+function parseParams(spec: string): SignatureParameter[] {
+  if (!spec) return [];
+  return spec.split(/,\s*/).map((param) => {
+    const eq = param.indexOf("=");
+    return eq === -1
+      ? { name: param }
+      : { name: param.slice(0, eq), defaultValue: param.slice(eq + 1) };
+  });
+}
+
+const mod = (
+  name: string,
+  params: string,
+  doc: string,
+  extra: Partial<BuiltinSymbol> = {}
+): BuiltinSymbol => ({
+  name,
+  kind: "module",
+  params: parseParams(params),
+  doc,
+  ...extra,
+});
+
+const operator = (
+  name: string,
+  params: string,
+  doc: string,
+  extra: Partial<BuiltinSymbol> = {}
+) => mod(name, params, doc, { children: true, ...extra });
+
+const fn = (
+  name: string,
+  params: string,
+  doc: string,
+  extra: Partial<BuiltinSymbol> = {}
+): BuiltinSymbol => ({
+  name,
+  kind: "function",
+  params: parseParams(params),
+  doc,
+  ...extra,
+});
+
+const variable = (name: string, doc: string): BuiltinSymbol => ({
+  name,
+  kind: "variable",
+  params: [],
+  doc,
+});
+
+export const BUILTINS: BuiltinSymbol[] = [
+  // 3D primitives
+  mod(
+    "cube",
+    "size, center=false",
+    "Cube or box with one corner at the origin, or centered.",
+    {
+      argsSnippet: "${1:10}",
+    }
+  ),
+  mod(
+    "sphere",
+    "r, d=undef",
+    "Sphere of radius `r` (or diameter `d`) centered at the origin.",
+    {
+      argsSnippet: "r=${1:5}",
+    }
+  ),
+  mod(
+    "cylinder",
+    "h, r1, r2, center=false, r=undef, d=undef, d1=undef, d2=undef",
+    "Cylinder or cone along the Z axis. `r1`/`d1` is the bottom, `r2`/`d2` the top.",
+    { argsSnippet: "h=${1:10}, r=${2:5}" }
+  ),
+  mod(
+    "polyhedron",
+    "points, faces, convexity=1",
+    "Solid from a list of points and the faces (point indices, clockwise seen from outside) between them."
+  ),
+  mod(
+    "import",
+    "file, convexity=1, center=false, dpi=96, layer=undef",
+    "Import geometry from an STL, OFF, 3MF, AMF, DXF or SVG file."
+  ),
+  mod(
+    "surface",
+    "file, center=false, invert=false, convexity=1",
+    "Height map from a text or PNG file."
+  ),
+  // 2D primitives
+  mod(
+    "square",
+    "size, center=false",
+    "Square or rectangle with one corner at the origin, or centered.",
+    {
+      argsSnippet: "${1:10}",
+    }
+  ),
+  mod(
+    "circle",
+    "r, d=undef",
+    "Circle of radius `r` (or diameter `d`) centered at the origin.",
+    {
+      argsSnippet: "r=${1:5}",
+    }
+  ),
+  mod(
+    "polygon",
+    "points, paths=undef, convexity=1",
+    "2D shape from a list of points; `paths` selects outlines and holes."
+  ),
+  mod(
+    "text",
+    'text, size=10, font=undef, halign="left", valign="baseline", spacing=1, direction="ltr", language="en", script="latin"',
+    "2D text outline.",
+    { argsSnippet: '"${1:text}", size=${2:10}' }
+  ),
+  // Transformations
+  operator("translate", "v", "Move children by the vector `v`.", {
+    argsSnippet: "[${1:0}, ${2:0}, ${3:0}]",
+  }),
+  operator(
+    "rotate",
+    "a, v=undef",
+    "Rotate children by `a` degrees about the axis `v`, or by `[x, y, z]` degrees about each axis in turn.",
+    { argsSnippet: "[${1:0}, ${2:0}, ${3:0}]" }
+  ),
+  operator("scale", "v", "Scale children by the vector `v`.", {
+    argsSnippet: "[${1:1}, ${2:1}, ${3:1}]",
+  }),
+  operator(
+    "resize",
+    "newsize, auto=false",
+    "Scale children to the given size; 0 keeps an axis unless `auto` is set."
+  ),
+  operator(
+    "mirror",
+    "v",
+    "Mirror children in the plane through the origin with normal `v`.",
+    {
+      argsSnippet: "[${1:1}, ${2:0}, ${3:0}]",
+    }
+  ),
+  operator(
+    "multmatrix",
+    "m",
+    "Transform children by the 4×4 (or 3×4) matrix `m`."
+  ),
+  operator(
+    "color",
+    "c, alpha=1.0",
+    'Color children by name ("red"), hex ("#f80") or `[r, g, b, a]` with components from 0 to 1.',
+    { argsSnippet: '"${1:red}"' }
+  ),
+  operator(
+    "offset",
+    "r=undef, delta=undef, chamfer=false",
+    "Grow (or shrink, when negative) a 2D shape by `r` with rounded corners, or by `delta` with sharp ones.",
+    { argsSnippet: "r=${1:1}" }
+  ),
+  operator("hull", "", "Convex hull of the children."),
+  operator("minkowski", "convexity=undef", "Minkowski sum of the children."),
+  // Boolean operations
+  operator("union", "", "Combine all children."),
+  operator(
+    "difference",
+    "",
+    "Subtract the second and later children from the first."
+  ),
+  operator("intersection", "", "Keep only what all children have in common."),
+  // Extrusion and projection
+  operator(
+    "linear_extrude",
+    "height, center=false, convexity=undef, twist=0, slices=undef, scale=1.0",
+    "Extrude 2D children along the Z axis, optionally twisting and scaling them.",
+    { argsSnippet: "height=${1:10}" }
+  ),
+  operator(
+    "rotate_extrude",
+    "angle=360, convexity=undef",
+    "Sweep 2D children (on the positive X side) around the Z axis."
+  ),
+  operator(
+    "projection",
+    "cut=false",
+    "2D projection of 3D children onto the XY plane; with `cut`, only the slice at Z = 0."
+  ),
+  // Other
+  operator(
+    "render",
+    "convexity=undef",
+    "Fully render children in preview too."
+  ),
+  operator(
+    "intersection_for",
+    "",
+    "Like `for`, but intersects the results instead of combining them."
+  ),
+  mod(
+    "children",
+    "index=undef",
+    "Children of the current module, or only the selected ones."
+  ),
+  mod("echo", "", "Print the arguments to the console.", { variadic: true }),
+  mod(
+    "assert",
+    'condition, message=""',
+    "Stop with an error when `condition` is false."
+  ),
+
+  // Math
+  fn("abs", "x", "Absolute value."),
+  fn("sign", "x", "-1, 0 or 1 depending on the sign of `x`."),
+  fn("sin", "degrees", "Sine of an angle in degrees."),
+  fn("cos", "degrees", "Cosine of an angle in degrees."),
+  fn("tan", "degrees", "Tangent of an angle in degrees."),
+  fn("asin", "x", "Arc sine, in degrees."),
+  fn("acos", "x", "Arc cosine, in degrees."),
+  fn("atan", "x", "Arc tangent, in degrees."),
+  fn("atan2", "y, x", "Angle of the point `[x, y]`, in degrees."),
+  fn("floor", "x", "Largest whole number not greater than `x`."),
+  fn("round", "x", "Nearest whole number; halves round away from zero."),
+  fn("ceil", "x", "Smallest whole number not less than `x`."),
+  fn("ln", "x", "Natural logarithm."),
+  fn("log", "x", "Base-10 logarithm."),
+  fn("pow", "base, exponent", "`base` raised to `exponent`."),
+  fn("sqrt", "x", "Square root."),
+  fn("exp", "x", "e raised to `x`."),
+  fn("min", "", "Smallest of the arguments, or of a single vector.", {
+    variadic: true,
+  }),
+  fn("max", "", "Largest of the arguments, or of a single vector.", {
+    variadic: true,
+  }),
+  fn("norm", "v", "Euclidean length of a vector."),
+  fn("cross", "a, b", "Cross product of two 3D (or 2D) vectors."),
+  fn(
+    "rands",
+    "min, max, count, seed=undef",
+    "Vector of `count` random numbers between `min` and `max`."
+  ),
+  // Lists and strings
+  fn(
+    "len",
+    "value",
+    "Number of elements of a vector or characters of a string."
+  ),
+  fn("concat", "", "Join vectors (and single values) into one vector.", {
+    variadic: true,
+  }),
+  fn(
+    "lookup",
+    "key, table",
+    "Interpolate `key` in a table of `[key, value]` pairs."
+  ),
+  fn("str", "", "Convert the arguments to strings and join them.", {
+    variadic: true,
+  }),
+  fn("chr", "code", "Characters from Unicode code points."),
+  fn("ord", "char", "Unicode code point of a one-character string."),
+  fn(
+    "search",
+    "match_value, string_or_vector, num_returns_per_match=1, index_col_num=0",
+    "Indices of the matches of `match_value` in a string or vector."
+  ),
+  // Type tests
+  fn("is_undef", "value", "Whether the value is `undef`."),
+  fn("is_bool", "value", "Whether the value is a boolean."),
+  fn("is_num", "value", "Whether the value is a number (and not NaN)."),
+  fn("is_string", "value", "Whether the value is a string."),
+  fn("is_list", "value", "Whether the value is a vector."),
+  fn("is_function", "value", "Whether the value is a function literal."),
+  // Other
+  fn("version", "", "OpenSCAD version as `[year, month, day]`."),
+  fn("version_num", "", "OpenSCAD version as a number, e.g. 20210100."),
+  fn(
+    "parent_module",
+    "n",
+    "Name of the module `n` levels up the instantiation stack."
+  ),
+
+  // Special variables
+  variable(
+    "$fn",
+    "Number of fragments for circles, spheres and cylinders; overrides `$fa` and `$fs` when above 0."
+  ),
+  variable("$fa", "Minimum angle (degrees) of a fragment."),
+  variable("$fs", "Minimum size of a fragment."),
+  variable("$t", "Animation step, from 0 to 1."),
+  variable("$children", "Number of children passed to the current module."),
+  variable("$preview", "True in preview (F5), false when rendering."),
+  variable("$parent_modules", "Number of modules on the instantiation stack."),
+  variable("$vpr", "Viewport rotation."),
+  variable("$vpt", "Viewport translation."),
+  variable("$vpd", "Viewport camera distance."),
+  variable("$vpf", "Viewport field of view."),
+  { name: "PI", kind: "constant", params: [], doc: "π, about 3.14159." },
+];
+
+export const BUILTINS_BY_NAME = new Map(BUILTINS.map((b) => [b.name, b]));
+
+/** Escape text for use in a snippet, where `$` starts a placeholder */
+export const escapeSnippet = (text: string) => text.replace(/[$}\\]/g, "\\$&");
+
+/** Arguments to fill in when inserting a call: the parameters without a default */
+export function defaultArgsSnippet(params: SignatureParameter[]) {
+  return params
+    .filter((p) => p.defaultValue === undefined)
+    .map((p, i) => `\${${i + 1}:${p.name}}`)
+    .join(", ");
+}
+
+/**
+ * Snippet for inserting a call of a builtin: modules without children get a
+ * semicolon, functions and operators keep the cursor after the call.
+ */
+export function builtinSnippet(builtin: BuiltinSymbol): string {
+  if (builtin.kind === "variable" || builtin.kind === "constant") {
+    return escapeSnippet(builtin.name);
+  }
+  const args =
+    builtin.argsSnippet ??
+    (builtin.variadic ? "$1" : defaultArgsSnippet(builtin.params));
+  const call = `${builtin.name}(${args})`;
+  if (builtin.kind === "function") return `${call}$0`;
+  return builtin.children ? `${call} $0` : `${call};$0`;
+}
+
+/**
+ * `name(a, b = 1)`, with where each parameter sits in it (for signature help)
+ */
+export function signatureParts(
+  name: string,
+  params: SignatureParameter[],
+  variadic = false
+): { label: string; params: [number, number][] } {
+  const list = params.map((p) =>
+    p.defaultValue === undefined ? p.name : `${p.name} = ${p.defaultValue}`
+  );
+  if (variadic) list.push("...");
+  const offsets: [number, number][] = [];
+  let label = `${name}(`;
+  list.forEach((item, i) => {
+    if (i > 0) label += ", ";
+    offsets.push([label.length, label.length + item.length]);
+    label += item;
+  });
+  return { label: `${label})`, params: offsets };
+}
+
+/** `name(a, b = 1)` */
+export const formatSignature = (
+  name: string,
+  params: SignatureParameter[],
+  variadic = false
+) => signatureParts(name, params, variadic).label;
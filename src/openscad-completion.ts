@@ -0,0 +1,159 @@
+/**
+ * Completion of OpenSCAD keywords, built-ins and the modules, functions and
+ * variables visible from the current file.
+ */
+import type { Monaco } from "@monaco-editor/react";
+import type { IDisposable, languages } from "monaco-editor";
+import { walk, type Program } from "./openscad-ast";
+import {
+  BUILTINS,
+  builtinSnippet,
+  defaultArgsSnippet,
+  escapeSnippet,
+  formatSignature,
+} from "./openscad-builtins";
+import type { SymbolDefinition } from "./openscad-index";
+import { KEYWORDS, tokenize } from "./openscad-lexer";
+import type { OpenSCADLanguageContext } from "./openscad-lang";
+
+/** Whether `offset` is inside a comment or string, where nothing is offered */
+export function isInCommentOrString(text: string, offset: number): boolean {
+  const prefix = text.slice(0, offset);
+  const { comments, errors } = tokenize(prefix);
+  if (
+    errors.some(
+      (e) =>
+        e.message === "Unterminated string" ||
+        e.message === "Unterminated comment"
+    )
+  ) {
+    return true;
+  }
+  const last = comments[comments.length - 1];
+  return !!last && last.kind === "line" && last.range.end === prefix.length;
+}
+
+/** Parameters of the module and function definitions around `offset` */
+function parametersInScope(program: Program, offset: number): string[] {
+  const names: string[] = [];
+  walk(program, (node) => {
+    if (offset < node.range.start || offset > node.range.end) return false;
+    if (
+      node.type === "ModuleDefinition" ||
+      node.type === "FunctionDefinition" ||
+      node.type === "FunctionLiteral"
+    ) {
+      names.push(...node.params.map((p) => p.name.name));
+    }
+  });
+  return names;
+}
+
+function symbolSnippet(symbol: SymbolDefinition): string {
+  if (symbol.kind === "variable") return escapeSnippet(symbol.name);
+  const args = defaultArgsSnippet(symbol.params);
+  const call = `${symbol.name}(${args})`;
+  if (symbol.kind === "function") return `${call}$0`;
+  return symbol.children ? `${call} $0` : `${call};$0`;
+}
+
+/** Doc comment and, for other files, where the symbol comes from */
+function symbolDocumentation(
+  symbol: SymbolDefinition,
+  filePath: string
+): languages.CompletionItem["documentation"] {
+  const parts: string[] = [];
+  if (symbol.doc) parts.push(symbol.doc);
+  if (symbol.file !== filePath) parts.push(`From ${symbol.file}`);
+  return parts.length ? parts.join("\n\n") : undefined;
+}
+
+export function registerCompletionProvider(
+  monaco: Monaco,
+  getContext: () => OpenSCADLanguageContext
+): IDisposable {
+  const { CompletionItemKind, CompletionItemInsertTextRule } = monaco.languages;
+  const kinds = {
+    module: CompletionItemKind.Module,
+    function: CompletionItemKind.Function,
+    variable: CompletionItemKind.Variable,
+    constant: CompletionItemKind.Constant,
+  };
+
+  return monaco.languages.registerCompletionItemProvider("openscad", {
+    triggerCharacters: ["$"],
+    async provideCompletionItems(model, position) {
+      const text = model.getValue();
+      const offset = model.getOffsetAt(position);
+      if (isInCommentOrString(text, offset)) return { suggestions: [] };
+
+      const word = model.getWordUntilPosition(position);
+      const range = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn,
+      };
+      const suggestions: languages.CompletionItem[] = [];
+      const offered = new Set<string>();
+      const offer = (item: Omit<languages.CompletionItem, "range">) => {
+        const label = item.label as string;
+        if (offered.has(label)) return;
+        offered.add(label);
+        suggestions.push({ ...item, range });
+      };
+
+      // Own symbols first so they win over library ones of the same name
+      const { index, filePath } = getContext();
+      if (index && filePath) {
+        const file = index.indexText(filePath, text);
+        for (const name of parametersInScope(file.program, offset)) {
+          offer({
+            label: name,
+            kind: CompletionItemKind.Variable,
+            detail: "parameter",
+            insertText: name,
+            sortText: `0${name}`,
+          });
+        }
+        for (const symbol of await index.visibleSymbols(filePath, text)) {
+          offer({
+            label: symbol.name,
+            kind: kinds[symbol.kind],
+            detail: symbol.signature,
+            documentation: symbolDocumentation(symbol, filePath),
+            insertText: symbolSnippet(symbol),
+            insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+            sortText: `1${symbol.name}`,
+          });
+        }
+      }
+
+      for (const builtin of BUILTINS) {
+        offer({
+          label: builtin.name,
+          kind: kinds[builtin.kind],
+          detail:
+            builtin.kind === "module" || builtin.kind === "function"
+              ? formatSignature(builtin.name, builtin.params, builtin.variadic)
+              : builtin.kind,
+          documentation: { value: builtin.doc },
+          insertText: builtinSnippet(builtin),
+          insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+          sortText: `2${builtin.name}`,
+        });
+      }
+
+      for (const keyword of KEYWORDS) {
+        offer({
+          label: keyword,
+          kind: CompletionItemKind.Keyword,
+          insertText: keyword,
+          sortText: `3${keyword}`,
+        });
+      }
+
+      return { suggestions };
+    },
+  });
+}
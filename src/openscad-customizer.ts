@@ -0,0 +1,248 @@
+/**
+ * Reads Customizer parameters from the top level of an OpenSCAD source, using
+ * the same annotations as OpenSCAD's own Customizer:
+ *
+ *   /* [Dimensions] *\/
+ *   // Outer width
+ *   width = 40;          // [10:5:100]   slider min:step:max
+ *   height = 20;         // [5:60]       slider min:max
+ *   shape = "round";     // [round, square]
+ *   holes = 2;           // [0:None, 2:Two, 4:Four]
+ *   rounded = true;      //              checkbox
+ *   label = "ABC";       // [8]          text, at most 8 characters
+ *   offset = [0, 0, 0];  // [-10:10]     vector
+ *   /* [Hidden] *\/       parameters below are not shown
+ *
+ * Only literal values count as parameters; computed assignments are left alone.
+ */
+import type { Expression, ListElement } from "./openscad-ast";
+import type { Comment } from "./openscad-lexer";
+import { parseOpenSCAD } from "./openscad-parser";
+
+export type CustomizerValue = number | boolean | string | number[];
+
+export type CustomizerOption = {
+  value: number | string;
+  label: string;
+};
+
+export type CustomizerWidget =
+  | { kind: "slider"; min: number; max: number; step?: number }
+  | { kind: "dropdown"; options: CustomizerOption[] }
+  | { kind: "checkbox" }
+  | { kind: "text"; maxLength?: number }
+  | { kind: "number" }
+  | { kind: "vector"; min?: number; max?: number; step?: number };
+
+export type CustomizerParameter = {
+  name: string;
+  /** Tab name from the closest preceding `/* [Tab] *\/` comment */
+  group: string;
+  description?: string;
+  defaultValue: CustomizerValue;
+  widget: CustomizerWidget;
+};
+
+export const DEFAULT_CUSTOMIZER_GROUP = "Parameters";
+
+const GROUP_REGEX = /^\/\*\s*\[([^\]]+)\]\s*\*\/$/;
+const NUMBER_REGEX = /^-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+function parseString(text: string): string | null {
+  if (!/^"(?:[^"\\]|\\.)*"$/.test(text)) return null;
+  return text
+    .slice(1, -1)
+    .replace(/\\(.)/g, (_, ch: string) =>
+      ch === "n" ? "\n" : ch === "t" ? "\t" : ch
+    );
+}
+
+function numberValue(expr: ListElement): number | null {
+  if (expr.type === "Number") return expr.value;
+  if (
+    expr.type === "Unary" &&
+    expr.operator === "-" &&
+    expr.operand.type === "Number"
+  ) {
+    return -expr.operand.value;
+  }
+  return null;
+}
+
+function literalValue(expr: Expression): CustomizerValue | null {
+  if (expr.type === "Boolean" || expr.type === "String") return expr.value;
+  if (expr.type === "Vector") {
+    const items = expr.elements.map(numberValue);
+    if (items.length && items.every((item) => item !== null)) {
+      return items as number[];
+    }
+    return null;
+  }
+  return numberValue(expr);
+}
+
+function parseRange(spec: string) {
+  const bounds = spec.split(":").map((p) => p.trim());
+  if (!bounds.every((b) => NUMBER_REGEX.test(b))) return null;
+  const [a, b, c] = bounds.map(parseFloat);
+  if (bounds.length === 2) return { min: a, max: b };
+  if (bounds.length === 3) return { min: a, step: b, max: c };
+  return null;
+}
+
+function parseOptions(spec: string, numeric: boolean): CustomizerOption[] {
+  return spec.split(",").map((item) => {
+    const [rawValue, ...rest] = item.split(":");
+    const valueText = rawValue.trim();
+    const label = rest.length ? rest.join(":").trim() : valueText;
+    const value =
+      numeric && NUMBER_REGEX.test(valueText)
+        ? parseFloat(valueText)
+        : (parseString(valueText) ?? valueText);
+    return { value, label };
+  });
+}
+
+function pickWidget(
+  value: CustomizerValue,
+  annotation: string | undefined
+): CustomizerWidget {
+  const spec = annotation?.match(/^\[(.*)\]$/)?.[1].trim();
+  if (typeof value === "boolean") return { kind: "checkbox" };
+  if (Array.isArray(value)) {
+    const range = spec ? parseRange(spec) : null;
+    return { kind: "vector", ...range };
+  }
+  if (typeof value === "number") {
+    if (spec === undefined) return { kind: "number" };
+    const range = parseRange(spec);
+    if (range) return { kind: "slider", ...range };
+    if (NUMBER_REGEX.test(spec)) {
+      return { kind: "slider", min: 0, max: parseFloat(spec) };
+    }
+    return { kind: "dropdown", options: parseOptions(spec, true) };
+  }
+  if (spec === undefined) return { kind: "text" };
+  if (NUMBER_REGEX.test(spec)) {
+    return { kind: "text", maxLength: parseInt(spec, 10) };
+  }
+  return { kind: "dropdown", options: parseOptions(spec, false) };
+}
+
+/**
+ * Collect Customizer parameters from top-level assignments in `source`.
+ * A later assignment to the same name replaces the earlier one, as in OpenSCAD.
+ */
+export function parseCustomizerParameters(
+  source: string
+): CustomizerParameter[] {
+  const text = source.replace(/\r\n/g, "\n");
+  const program = parseOpenSCAD(text);
+  const lineStart = (offset: number) => text.lastIndexOf("\n", offset - 1) + 1;
+  // Comments with nothing but whitespace before them on their line
+  const ownLine = (c: Comment) =>
+    !text.slice(lineStart(c.range.start), c.range.start).trim();
+  const topLevel = (c: Comment) =>
+    !program.statements.some(
+      (s) => s.range.start < c.range.start && c.range.end < s.range.end
+    );
+
+  const groups = program.comments.filter(
+    (c) =>
+      c.kind === "block" &&
+      GROUP_REGEX.test(c.text) &&
+      ownLine(c) &&
+      topLevel(c)
+  );
+  // Line comments by the line they're on; they always run to its end
+  const lineComments = new Map<number, Comment>();
+  for (const c of program.comments) {
+    if (c.kind === "line") lineComments.set(lineStart(c.range.start), c);
+  }
+  const commentText = (c: Comment) => c.text.replace(/^\/\/\s*/, "").trim();
+  // A `//` comment alone on the line above the assignment describes it
+  const descriptionAbove = (offset: number) => {
+    const start = lineStart(offset);
+    const c = start > 0 ? lineComments.get(lineStart(start - 1)) : undefined;
+    return c && ownLine(c) && topLevel(c)
+      ? commentText(c) || undefined
+      : undefined;
+  };
+  // The annotation is the `//` comment right after the `;`
+  const annotationAfter = (offset: number) => {
+    const c = lineComments.get(lineStart(offset));
+    return c && !text.slice(offset, c.range.start).trim()
+      ? commentText(c)
+      : undefined;
+  };
+
+  const params = new Map<string, CustomizerParameter>();
+  let nextGroup = 0;
+  let group = DEFAULT_CUSTOMIZER_GROUP;
+  for (const statement of program.statements) {
+    while (
+      nextGroup < groups.length &&
+      groups[nextGroup].range.start < statement.range.start
+    ) {
+      group = groups[nextGroup++].text.match(GROUP_REGEX)![1].trim();
+    }
+    if (statement.type !== "Assignment") continue;
+    if (group.toLowerCase() === "hidden") continue;
+    const value = literalValue(statement.value);
+    if (value === null) continue;
+    const name = statement.name.name;
+    params.delete(name);
+    params.set(name, {
+      name,
+      group,
+      description: descriptionAbove(statement.range.start),
+      defaultValue: value,
+      widget: pickWidget(value, annotationAfter(statement.range.end)),
+    });
+  }
+  return [...params.values()];
+}
+
+const escapeScadString = (text: string) =>
+  `"${text
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\t/g, "\\t")}"`;
+
+/**
+ * Render a value as the OpenSCAD expression used in a `-D name=value` override.
+ */
+export function formatCustomizerValue(value: CustomizerValue): string {
+  if (Array.isArray(value)) return `[${value.map(String).join(", ")}]`;
+  if (typeof value === "string") return escapeScadString(value);
+  return String(value);
+}
+
+export function customizerValuesEqual(
+  a: CustomizerValue,
+  b: CustomizerValue
+): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => v === b[i]);
+  }
+  return a === b;
+}
+
+/**
+ * `-D` overrides for the values that differ from the source defaults.
+ * Overrides for parameters that no longer exist are dropped.
+ */
+export function buildCustomizerDefines(
+  params: CustomizerParameter[],
+  values: Record<string, CustomizerValue>
+): Record<string, string> {
+  const defines: Record<string, string> = {};
+  for (const param of params) {
+    const value = values[param.name];
+    if (value === undefined) continue;
+    if (customizerValuesEqual(value, param.defaultValue)) continue;
+    defines[param.name] = formatCustomizerValue(value);
+  }
+  return defines;
+}
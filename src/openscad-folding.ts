@@ -0,0 +1,81 @@
+/**
+ * Folding for OpenSCAD files: braced blocks (module bodies included),
+ * function definitions, multi-line comments and `// @export` parts, which
+ * fold up to where `parseExportBlocks` ends them.
+ */
+import type { Monaco } from "@monaco-editor/react";
+import type { IDisposable, languages } from "monaco-editor";
+import { walk, type Program } from "./openscad-ast";
+import { computeLineStarts, positionAt } from "./openscad-lexer";
+import type { OpenSCADLanguageContext } from "./openscad-lang";
+import { pathForModel } from "./openscad-navigation";
+import { findPartDirectives, parseExportBlocks } from "./openscad-parsing";
+import { parseOpenSCAD } from "./openscad-parser";
+
+export type FoldKind = "code" | "comment" | "part";
+
+/** 1-based lines; the start line stays visible when folded */
+export type FoldRange = { start: number; end: number; kind: FoldKind };
+
+export function foldingRanges(text: string, program: Program): FoldRange[] {
+  const lineStarts = computeLineStarts(text);
+  const lineOf = (offset: number) => positionAt(lineStarts, offset).line;
+  const ranges: FoldRange[] = [];
+  const add = (start: number, end: number, kind: FoldKind) => {
+    if (end > start) ranges.push({ start, end, kind });
+  };
+
+  walk(program, (node) => {
+    if (node.type === "Block") {
+      // Keep the closing brace visible
+      add(lineOf(node.range.start), lineOf(node.range.end) - 1, "code");
+    } else if (node.type === "FunctionDefinition") {
+      add(lineOf(node.range.start), lineOf(node.range.end), "code");
+    }
+  });
+
+  for (const comment of program.comments) {
+    if (comment.kind !== "block") continue;
+    add(lineOf(comment.range.start), lineOf(comment.range.end), "comment");
+  }
+
+  try {
+    const directives = findPartDirectives(text, program);
+    for (const block of parseExportBlocks(text, program, directives)) {
+      add(lineOf(block.start), lineOf(block.end), "part");
+    }
+  } catch {
+    // Broken markers are reported when rendering; parts just don't fold
+  }
+
+  return ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+export function registerFoldingRangeProvider(
+  monaco: Monaco,
+  getContext: () => OpenSCADLanguageContext
+): IDisposable {
+  const { FoldingRangeKind } = monaco.languages;
+  const kinds: Record<FoldKind, languages.FoldingRangeKind | undefined> = {
+    code: undefined,
+    comment: FoldingRangeKind.Comment,
+    part: FoldingRangeKind.Region,
+  };
+
+  return monaco.languages.registerFoldingRangeProvider("openscad", {
+    provideFoldingRanges(model) {
+      const context = getContext();
+      const text = model.getValue();
+      const path = pathForModel(model, context);
+      const program =
+        context.index && path
+          ? context.index.indexText(path, text).program
+          : parseOpenSCAD(text);
+      return foldingRanges(text, program).map(({ start, end, kind }) => ({
+        start,
+        end,
+        kind: kinds[kind],
+      }));
+    },
+  });
+}
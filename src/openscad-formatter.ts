@@ -0,0 +1,374 @@
+/**
+ * Formatter for OpenSCAD sources: re-indents, puts opening braces on the line
+ * of their statement and normalizes spacing, working on the token stream so
+ * comments (including `// @export` markers) come through untouched. Line
+ * breaks the author chose are kept.
+ */
+import type { Monaco } from "@monaco-editor/react";
+import type { IDisposable } from "monaco-editor";
+import { tokenize, type Comment, type Token } from "./openscad-lexer";
+
+type Item =
+  | { type: "token"; token: Token; start: number; end: number }
+  | { type: "comment"; comment: Comment; start: number; end: number };
+
+type Frame = {
+  open: "{" | "(" | "[" | null;
+  /** Indent of the line the bracket was opened on */
+  indent: number;
+  /** Unmatched `?`, to tell ternary `:` from range `:` */
+  ternaries: number;
+  /** The parentheses of `for (...)`, `if (...)` and the like */
+  header?: boolean;
+};
+
+const BINARY_OPERATORS = new Set([
+  "=",
+  "==",
+  "!=",
+  "<",
+  ">",
+  "<=",
+  ">=",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "^",
+  "&&",
+  "||",
+  "?",
+]);
+const MODIFIERS = new Set(["!", "#", "%", "*"]);
+// Keywords that take a parenthesized header, written `if (...)`
+const HEADER_KEYWORDS = new Set(["if", "for", "let", "each"]);
+const LITERAL_KEYWORDS = new Set(["true", "false", "undef"]);
+
+const countBreaks = (text: string) => text.split("\n").length - 1;
+
+/**
+ * Format `source`. Sources the lexer can't fully read (unterminated strings
+ * or comments, stray characters) are returned unchanged.
+ */
+export function formatOpenSCAD(source: string, indentUnit = "  "): string {
+  const { tokens, comments, errors } = tokenize(source);
+  if (errors.length) return source;
+
+  const items: Item[] = [
+    ...tokens
+      .filter((token) => token.kind !== "eof")
+      .map((token) => ({
+        type: "token" as const,
+        token,
+        start: token.start,
+        end: token.end,
+      })),
+    ...comments.map((comment) => ({
+      type: "comment" as const,
+      comment,
+      start: comment.range.start,
+      end: comment.range.end,
+    })),
+  ].sort((a, b) => a.start - b.start);
+  if (!items.length) return source;
+
+  const lines: { indent: number; text: string }[] = [];
+  let line: { indent: number; text: string } | null = null;
+  // Last token on the current line, for chained module instantiations
+  let lineLastToken: Token | null = null;
+
+  const stack: Frame[] = [{ open: null, indent: -1, ternaries: 0 }];
+  const top = () => stack[stack.length - 1];
+  const atStatementLevel = () => top().open === null || top().open === "{";
+
+  // A statement spanning lines indents its continuation lines, one more for
+  // each module instantiation it chains (`translate(...)` / `cube();`)
+  let statementOpen = false;
+  let chainDepth = 0;
+  // After `=` in an assignment or function definition, `*` multiplies
+  let inExpression = false;
+
+  let prev: Token | null = null;
+  let prevUnary = false;
+  // `)` of a header: what follows is a body, not an index or a call
+  let prevClosesHeader = false;
+  let prevRangeColon = false;
+  let prevItem: Item | null = null;
+  let forceBreak = false;
+
+  const endStatement = () => {
+    statementOpen = false;
+    chainDepth = 0;
+    inExpression = false;
+  };
+
+  const newline = (blankLine: boolean) => {
+    if (!line) return;
+    lines.push(line);
+    if (blankLine) lines.push({ indent: 0, text: "" });
+    if (
+      atStatementLevel() &&
+      statementOpen &&
+      lineLastToken &&
+      (lineLastToken.text === ")" || lineLastToken.text === "else")
+    ) {
+      chainDepth++;
+    }
+    line = null;
+    lineLastToken = null;
+  };
+
+  const lineIndent = (): number => {
+    const frame = top();
+    if (!atStatementLevel()) return frame.indent + 1;
+    return frame.indent + 1 + (statementOpen ? Math.max(1, chainDepth) : 0);
+  };
+
+  const isUnary = (token: Token): boolean => {
+    const text = token.text;
+    if (
+      MODIFIERS.has(text) &&
+      atStatementLevel() &&
+      !inExpression &&
+      (!prev || prevUnary || /^[);{}]$|^else$/.test(prev.text))
+    ) {
+      return true;
+    }
+    if (text !== "-" && text !== "+" && text !== "!") return false;
+    if (!prev) return true;
+    if (prev.kind === "punctuation")
+      return prev.text !== ")" && prev.text !== "]";
+    return prev.kind === "keyword" && !LITERAL_KEYWORDS.has(prev.text);
+  };
+
+  const isRangeColon = () => top().open === "[" && top().ternaries === 0;
+
+  const spaceBefore = (token: Token): string => {
+    if (!prev) return "";
+    const p = prev.text;
+    const c = token.text;
+    if (/^[,;)\]]$/.test(c) || c === "." || p === ".") return "";
+    if (prevUnary || p === "(" || p === "[") return "";
+    if (c === "}") return "";
+    if (c === "(") {
+      if (prevClosesHeader) return " ";
+      if (prev.kind === "identifier" || p === ")" || p === "]") return "";
+      if (prev.kind === "keyword") return HEADER_KEYWORDS.has(p) ? " " : "";
+      return " ";
+    }
+    if (c === "[") {
+      const indexes =
+        prev.kind === "identifier" ||
+        prev.kind === "string" ||
+        (p === ")" && !prevClosesHeader) ||
+        p === "]";
+      return indexes ? "" : " ";
+    }
+    if (c === ":") return isRangeColon() ? "" : " ";
+    if (p === ":") return prevRangeColon ? "" : " ";
+    return " ";
+  };
+
+  for (const item of items) {
+    const gap = prevItem ? source.slice(prevItem.end, item.start) : "";
+    const breaks = countBreaks(gap);
+    const token = item.type === "token" ? item.token : null;
+    const text = token?.text;
+
+    // Decide whether the item starts a new line
+    let breakHere = breaks > 0;
+    const afterToken = prevItem?.type === "token";
+    if (forceBreak) {
+      const trailingComment = item.type === "comment" && breaks === 0;
+      const emptyBlock = afterToken && prev?.text === "{" && text === "}";
+      const afterBlock =
+        afterToken && prev?.text === "}" && (text === "else" || text === ";");
+      if (emptyBlock || afterBlock) breakHere = false;
+      else if (!trailingComment) breakHere = true;
+    }
+    if (
+      text === "}" &&
+      atStatementLevel() &&
+      !(afterToken && prev?.text === "{")
+    ) {
+      breakHere = true;
+    }
+    if (
+      text === "{" &&
+      breaks > 0 &&
+      afterToken &&
+      !/^[;{}]$/.test(prev!.text)
+    ) {
+      // Opening braces go on the line of their statement
+      breakHere = false;
+    }
+    if (prevItem?.type === "comment" && prevItem.comment.kind === "line") {
+      // Nothing may follow a line comment on its line
+      breakHere = true;
+    }
+    if (!line) breakHere = false;
+
+    if (breakHere) {
+      const blankLine =
+        breaks > 1 && prev?.text !== "{" && text !== "}" && prevItem !== null;
+      newline(blankLine);
+    }
+
+    // A closing bracket lines up with the line that opened it
+    let indent: number | null = null;
+    let closesHeader = false;
+    if ((text === ")" || text === "]" || text === "}") && stack.length > 1) {
+      const frame = stack.pop()!;
+      indent = frame.indent;
+      closesHeader = !!frame.header;
+    }
+
+    let unary = false;
+    let piece: string;
+    if (item.type === "comment") {
+      piece =
+        item.comment.kind === "line"
+          ? item.comment.text.trimEnd()
+          : item.comment.text;
+    } else {
+      unary = isUnary(item.token);
+      piece = item.token.text;
+    }
+
+    if (!line) {
+      line = { indent: indent ?? lineIndent(), text: piece };
+    } else {
+      let space: string;
+      if (item.type === "comment" || prevItem?.type === "comment") {
+        space = " ";
+      } else if (!unary && BINARY_OPERATORS.has(text!)) {
+        space = " ";
+      } else if (
+        prev &&
+        !prevUnary &&
+        BINARY_OPERATORS.has(prev.text) &&
+        !/^[,;)\]]$/.test(text!)
+      ) {
+        space = " ";
+      } else {
+        space = spaceBefore(item.token);
+      }
+      line.text += space + piece;
+    }
+
+    if (item.type === "comment") {
+      prevItem = item;
+      continue;
+    }
+    forceBreak = false;
+
+    const tok = item.token;
+    const rangeColon = tok.text === ":" && isRangeColon();
+    lineLastToken = tok;
+    const statementLevel = atStatementLevel();
+    switch (tok.text) {
+      case "{":
+        stack.push({ open: "{", indent: line.indent, ternaries: 0 });
+        endStatement();
+        forceBreak = true;
+        break;
+      case "(":
+        stack.push({
+          open: "(",
+          indent: line.indent,
+          ternaries: 0,
+          header: prev?.kind === "keyword" && HEADER_KEYWORDS.has(prev.text),
+        });
+        break;
+      case "[":
+        stack.push({ open: "[", indent: line.indent, ternaries: 0 });
+        break;
+      case "}":
+        endStatement();
+        forceBreak = true;
+        break;
+      case ";":
+        if (statementLevel) {
+          endStatement();
+          forceBreak = true;
+        }
+        break;
+      case "?":
+        top().ternaries++;
+        break;
+      case ":":
+        if (top().ternaries > 0) top().ternaries--;
+        break;
+      case "=":
+        if (statementLevel) inExpression = true;
+        break;
+    }
+    if (tok.kind === "path") {
+      // `include <...>` has no semicolon
+      endStatement();
+      forceBreak = true;
+    } else if (statementLevel && !/^[;{}]$/.test(tok.text)) {
+      statementOpen = true;
+    }
+    prevRangeColon = rangeColon;
+    prev = tok;
+    prevUnary = unary;
+    prevClosesHeader = closesHeader;
+    prevItem = item;
+  }
+  if (line) lines.push(line);
+
+  return (
+    lines
+      .map(({ indent, text }) =>
+        text ? indentUnit.repeat(Math.max(0, indent)) + text : ""
+      )
+      .join("\n") + "\n"
+  );
+}
+
+/** Format Document (Shift+Alt+F) for OpenSCAD files */
+export function registerFormattingProvider(monaco: Monaco): IDisposable {
+  return monaco.languages.registerDocumentFormattingEditProvider("openscad", {
+    provideDocumentFormattingEdits(model, options) {
+      const text = model.getValue();
+      const formatted = formatOpenSCAD(
+        text,
+        options.insertSpaces ? " ".repeat(options.tabSize) : "\t"
+      );
+      if (formatted === text) return [];
+      // Replace only the part that changed, so the cursor and the rest of
+      // the undo history stay put
+      let start = 0;
+      while (
+        start < text.length &&
+        start < formatted.length &&
+        text[start] === formatted[start]
+      ) {
+        start++;
+      }
+      let end = 0;
+      while (
+        end < text.length - start &&
+        end < formatted.length - start &&
+        text[text.length - 1 - end] === formatted[formatted.length - 1 - end]
+      ) {
+        end++;
+      }
+      const from = model.getPositionAt(start);
+      const to = model.getPositionAt(text.length - end);
+      return [
+        {
+          range: {
+            startLineNumber: from.lineNumber,
+            startColumn: from.column,
+            endLineNumber: to.lineNumber,
+            endColumn: to.column,
+          },
+          text: formatted.slice(start, formatted.length - end),
+        },
+      ];
+    },
+  });
+}
@@ -0,0 +1,253 @@
+/**
+ * Hover documentation and parameter hints for calls of built-ins and of the
+ * modules and functions visible from the current file.
+ */
+import type { Monaco } from "@monaco-editor/react";
+import type { IDisposable, IMarkdownString, languages } from "monaco-editor";
+import {
+  BUILTINS_BY_NAME,
+  signatureParts,
+  type BuiltinSymbol,
+  type SignatureParameter,
+} from "./openscad-builtins";
+import { isInCommentOrString } from "./openscad-completion";
+import type { SymbolDefinition } from "./openscad-index";
+import { tokenize, type Token } from "./openscad-lexer";
+import type { OpenSCADLanguageContext } from "./openscad-lang";
+import { pathForModel, resolveGlobal } from "./openscad-navigation";
+import { referenceAt, type Namespace } from "./openscad-scopes";
+
+const code = (text: string): IMarkdownString => ({
+  value: "```openscad\n" + text + "\n```",
+});
+
+// Comments are plain text; keep their line breaks
+const plainText = (text: string): IMarkdownString => ({
+  value: text.replace(/[\\`*_{}[\]<>#|]/g, "\\$&").replace(/\n/g, "  \n"),
+});
+
+function builtinFor(name: string, namespace: Namespace): BuiltinSymbol | null {
+  const builtin = BUILTINS_BY_NAME.get(name);
+  if (!builtin) return null;
+  const matches =
+    namespace === "variable"
+      ? builtin.kind === "variable" || builtin.kind === "constant"
+      : builtin.kind === namespace;
+  return matches ? builtin : null;
+}
+
+function builtinHover(builtin: BuiltinSymbol): IMarkdownString[] {
+  const heading =
+    builtin.kind === "module" || builtin.kind === "function"
+      ? signatureParts(builtin.name, builtin.params, builtin.variadic).label
+      : builtin.name;
+  return [code(heading), { value: builtin.doc }];
+}
+
+function symbolHover(
+  symbol: SymbolDefinition,
+  filePath: string
+): IMarkdownString[] {
+  const contents = [code(symbol.signature)];
+  if (symbol.doc) contents.push(plainText(symbol.doc));
+  if (symbol.file !== filePath) {
+    contents.push({ value: `From \`${symbol.file}\`` });
+  }
+  return contents;
+}
+
+// Tokens after which a name starts a statement, i.e. names a module
+const STATEMENT_START = new Set([";", "{", "}", ")", "else"]);
+const MODIFIERS = new Set(["!", "#", "%", "*"]);
+
+/** Whether the call whose name is `tokens[i]` instantiates a module */
+function isModuleCall(tokens: Token[], i: number): boolean {
+  let j = i - 1;
+  // `*` is a modifier only where a statement starts, not a multiplication
+  while (j >= 0 && MODIFIERS.has(tokens[j].text)) j--;
+  return j < 0 || STATEMENT_START.has(tokens[j].text);
+}
+
+type ActiveCall = {
+  name: string;
+  namespace: Namespace;
+  /** Positional arguments before the cursor */
+  argumentIndex: number;
+  /** Set when the cursor is in a named argument */
+  argumentName?: string;
+};
+
+/**
+ * The call whose argument list `offset` is in: the innermost `(` that isn't
+ * closed yet, when a name comes right before it.
+ */
+export function activeCall(text: string, offset: number): ActiveCall | null {
+  const tokens = tokenize(text.slice(0, offset)).tokens.filter(
+    (t) => t.kind !== "eof"
+  );
+  let depth = 0;
+  let commas = 0;
+  // First token of the argument the cursor is in
+  let argumentStart = -1;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const { kind, text: t } = tokens[i];
+    if (kind !== "punctuation") continue;
+    if (t === ")" || t === "]" || t === "}") {
+      depth++;
+    } else if (t === "[" || t === "{") {
+      if (depth === 0) return null;
+      depth--;
+    } else if (t === "(") {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      const name = tokens[i - 1];
+      if (!name || (name.kind !== "identifier" && name.kind !== "keyword")) {
+        return null;
+      }
+      if (commas === 0) argumentStart = i + 1;
+      const first = tokens[argumentStart];
+      const named =
+        first?.kind === "identifier" && tokens[argumentStart + 1]?.text === "=";
+      return {
+        name: name.text,
+        namespace: isModuleCall(tokens, i - 1) ? "module" : "function",
+        argumentIndex: commas,
+        ...(named ? { argumentName: first.text } : {}),
+      };
+    } else if (t === ";" && depth === 0) {
+      return null;
+    } else if (t === "," && depth === 0) {
+      if (commas === 0) argumentStart = i + 1;
+      commas++;
+    }
+  }
+  return null;
+}
+
+function activeParameter(
+  call: ActiveCall,
+  params: SignatureParameter[],
+  variadic: boolean
+): number {
+  if (call.argumentName !== undefined) {
+    // Out of range highlights nothing, e.g. for `$fn = ...`
+    const named = params.findIndex((p) => p.name === call.argumentName);
+    return named === -1 ? params.length + 1 : named;
+  }
+  return variadic
+    ? Math.min(call.argumentIndex, params.length)
+    : call.argumentIndex;
+}
+
+export function registerHelpProviders(
+  monaco: Monaco,
+  getContext: () => OpenSCADLanguageContext
+): IDisposable[] {
+  return [
+    monaco.languages.registerHoverProvider("openscad", {
+      async provideHover(model, position) {
+        const context = getContext();
+        const { index } = context;
+        const filePath = pathForModel(model, context);
+        if (!index || !filePath) return null;
+        const text = model.getValue();
+        const file = index.indexText(filePath, text);
+        const reference = referenceAt(
+          index.scopesOf(file),
+          model.getOffsetAt(position)
+        );
+        if (!reference) return null;
+
+        let contents: IMarkdownString[] | null = null;
+        if (reference.binding && !reference.binding.global) {
+          contents = [code(`(local) ${reference.name}`)];
+        } else {
+          const symbol = await resolveGlobal(
+            index,
+            filePath,
+            reference.name,
+            reference.namespace
+          );
+          if (symbol) {
+            contents = symbolHover(symbol, filePath);
+          } else {
+            const builtin = builtinFor(reference.name, reference.namespace);
+            if (builtin) contents = builtinHover(builtin);
+          }
+        }
+        if (!contents) return null;
+        const start = model.getPositionAt(reference.range.start);
+        const end = model.getPositionAt(reference.range.end);
+        return {
+          contents,
+          range: {
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column,
+          },
+        };
+      },
+    }),
+    monaco.languages.registerSignatureHelpProvider("openscad", {
+      signatureHelpTriggerCharacters: ["(", ","],
+      signatureHelpRetriggerCharacters: ["="],
+      async provideSignatureHelp(model, position) {
+        const context = getContext();
+        const filePath = pathForModel(model, context);
+        const text = model.getValue();
+        const offset = model.getOffsetAt(position);
+        if (isInCommentOrString(text, offset)) return null;
+        const call = activeCall(text, offset);
+        if (!call) return null;
+
+        let signature: languages.SignatureInformation | null = null;
+        let active = 0;
+        const symbol =
+          context.index && filePath
+            ? await resolveGlobal(
+                context.index,
+                filePath,
+                call.name,
+                call.namespace
+              )
+            : null;
+        if (symbol && symbol.kind !== "variable") {
+          const parts = signatureParts(symbol.name, symbol.params);
+          signature = {
+            label: parts.label,
+            documentation: symbol.doc && plainText(symbol.doc),
+            parameters: parts.params.map((label) => ({ label })),
+          };
+          active = activeParameter(call, symbol.params, false);
+        } else if (!symbol) {
+          const builtin = builtinFor(call.name, call.namespace);
+          if (builtin) {
+            const parts = signatureParts(
+              builtin.name,
+              builtin.params,
+              builtin.variadic
+            );
+            signature = {
+              label: parts.label,
+              documentation: { value: builtin.doc },
+              parameters: parts.params.map((label) => ({ label })),
+            };
+            active = activeParameter(call, builtin.params, !!builtin.variadic);
+          }
+        }
+        if (!signature) return null;
+        return {
+          value: {
+            signatures: [signature],
+            activeSignature: 0,
+            activeParameter: active,
+          },
+          dispose() {},
+        };
+      },
+    }),
+  ];
+}
@@ -0,0 +1,297 @@
+/**
+ * Symbols defined in OpenSCAD files and the files each one can see through
+ * `include` and `use`, for editor features that look across files.
+ *
+ * Paths are project-relative, or absolute for files outside the project
+ * (`/SFLibs/...`), like everywhere else in the app.
+ */
+import { formatSignature, type SignatureParameter } from "./openscad-builtins";
+import { walk, type Program, type Statement } from "./openscad-ast";
+import type { Comment, SourceRange } from "./openscad-lexer";
+import { parseOpenSCAD } from "./openscad-parser";
+import { analyzeScopes, type ScopeAnalysis } from "./openscad-scopes";
+import {
+  findImportReferences,
+  normalizeAbsolutePath,
+  resolveImportPath,
+} from "./utils/importUtils";
+
+export type SymbolKind = "module" | "function" | "variable";
+
+export type SymbolDefinition = {
+  name: string;
+  kind: SymbolKind;
+  /** Modules and functions only; defaults as source text */
+  params: SignatureParameter[];
+  /** `name(a, b = 1)`, or `name = value` for variables */
+  signature: string;
+  /** Modules only: whether the body uses `children()` */
+  children?: boolean;
+  /** The comment right above the definition, without comment markers */
+  doc?: string;
+  /** File the symbol is defined in */
+  file: string;
+  /** The whole definition */
+  range: SourceRange;
+  /** Just the name, for jumping to it */
+  nameRange: SourceRange;
+};
+
+export type IndexedFile = {
+  path: string;
+  text: string;
+  program: Program;
+  /** Top-level definitions, in source order */
+  symbols: SymbolDefinition[];
+  /** Resolved `include`/`use` targets, in source order */
+  imports: { kind: "include" | "use"; path: string }[];
+};
+
+/**
+ * Returns the current text of a file (the editor buffer for open tabs), or
+ * null when it can't be read.
+ */
+export type SourceLoader = (path: string) => Promise<string | null>;
+
+/** Returns the project-relative paths of every OpenSCAD file in the project */
+export type SourceLister = () => Promise<string[]>;
+
+/**
+ * Resolve an `include`/`use` path written in `from`. Relative paths in files
+ * outside the project stay outside it.
+ */
+export function resolveSourcePath(
+  from: string,
+  importPath: string
+): string | null {
+  if (importPath.startsWith("/")) return normalizeAbsolutePath(importPath);
+  if (from.startsWith("/") && !importPath.startsWith("@/")) {
+    const dir = from.split("/").slice(0, -1).join("/");
+    return normalizeAbsolutePath(`${dir}/${importPath}`);
+  }
+  return resolveImportPath(from, importPath);
+}
+
+const MAX_VALUE_LENGTH = 60;
+
+function usesChildren(body: Statement): boolean {
+  let found = false;
+  walk(body, (node) => {
+    if (found) return false;
+    if (node.type === "ModuleInstantiation" && node.name.name === "children") {
+      found = true;
+    }
+  });
+  return found;
+}
+
+function cleanBlockComment(text: string): string {
+  return text
+    .replace(/^\/\*+|\*+\/$/g, "")
+    .split("\n")
+    .map((line) => line.replace(/^\s*\* ?/, "").trimEnd())
+    .join("\n")
+    .trim();
+}
+
+/**
+ * The comment block directly above `start`: either consecutive `//` lines
+ * or one block comment, each on lines of their own.
+ */
+function docComment(
+  comments: Comment[],
+  text: string,
+  start: number
+): string | undefined {
+  const lineStart = (offset: number) => text.lastIndexOf("\n", offset - 1) + 1;
+  const lines: string[] = [];
+  let next = lineStart(start);
+  for (let i = comments.length - 1; i >= 0; i--) {
+    const comment = comments[i];
+    if (comment.range.end > next) continue;
+    // Nothing but the line break between the comment and what follows
+    if (!/^[ \t]*\r?\n$/.test(text.slice(comment.range.end, next))) break;
+    const before = text.slice(
+      lineStart(comment.range.start),
+      comment.range.start
+    );
+    if (before.trim()) break;
+    if (comment.kind === "block") {
+      if (lines.length) break;
+      return cleanBlockComment(comment.text) || undefined;
+    }
+    lines.unshift(comment.text.replace(/^\/\/+ ?/, "").trimEnd());
+    next = lineStart(comment.range.start);
+  }
+  return lines.join("\n").trim() || undefined;
+}
+
+/** Modules, functions and variables defined at the top level of `program` */
+export function collectDefinitions(
+  program: Program,
+  file: string,
+  text: string
+): SymbolDefinition[] {
+  const source = (range: SourceRange) =>
+    text.slice(range.start, range.end).replace(/\s+/g, " ");
+  const symbols: SymbolDefinition[] = [];
+  for (const statement of program.statements) {
+    if (
+      statement.type === "ModuleDefinition" ||
+      statement.type === "FunctionDefinition"
+    ) {
+      const params = statement.params.map((p) => ({
+        name: p.name.name,
+        defaultValue: p.defaultValue && source(p.defaultValue.range),
+      }));
+      const symbol: SymbolDefinition = {
+        name: statement.name.name,
+        kind: statement.type === "ModuleDefinition" ? "module" : "function",
+        params,
+        signature: formatSignature(statement.name.name, params),
+        file,
+        range: statement.range,
+        nameRange: statement.name.range,
+      };
+      if (statement.type === "ModuleDefinition") {
+        symbol.children = usesChildren(statement.body);
+      }
+      const doc = docComment(program.comments, text, statement.range.start);
+      if (doc) symbol.doc = doc;
+      symbols.push(symbol);
+    } else if (statement.type === "Assignment") {
+      let value = source(statement.value.range);
+      if (value.length > MAX_VALUE_LENGTH) {
+        value = value.slice(0, MAX_VALUE_LENGTH - 1) + "…";
+      }
+      const symbol: SymbolDefinition = {
+        name: statement.name.name,
+        kind: "variable",
+        params: [],
+        signature: `${statement.name.name} = ${value}`,
+        file,
+        range: statement.range,
+        nameRange: statement.name.range,
+      };
+      const doc = docComment(program.comments, text, statement.range.start);
+      if (doc) symbol.doc = doc;
+      symbols.push(symbol);
+    }
+  }
+  return symbols;
+}
+
+export class SourceIndex {
+  private files = new Map<string, IndexedFile>();
+  private scopes = new WeakMap<IndexedFile, ScopeAnalysis>();
+
+  constructor(
+    private load: SourceLoader,
+    private list: SourceLister = async () => []
+  ) {}
+
+  /** Index `text` as the contents of `path`; reparsed only when it changed */
+  indexText(path: string, text: string): IndexedFile {
+    const cached = this.files.get(path);
+    if (cached && cached.text === text) return cached;
+    const program = parseOpenSCAD(text);
+    const imports: IndexedFile["imports"] = [];
+    for (const ref of findImportReferences(program)) {
+      if (ref.kind === "import") continue;
+      const resolved = resolveSourcePath(path, ref.path);
+      if (resolved) imports.push({ kind: ref.kind, path: resolved });
+    }
+    const indexed: IndexedFile = {
+      path,
+      text,
+      program,
+      symbols: collectDefinitions(program, path, text),
+      imports,
+    };
+    this.files.set(path, indexed);
+    return indexed;
+  }
+
+  /** Name resolution within `file`, computed on first use */
+  scopesOf(file: IndexedFile): ScopeAnalysis {
+    let analysis = this.scopes.get(file);
+    if (!analysis) {
+      analysis = analyzeScopes(file.program);
+      this.scopes.set(file, analysis);
+    }
+    return analysis;
+  }
+
+  async getFile(path: string): Promise<IndexedFile | null> {
+    const text = await this.load(path);
+    return text === null ? null : this.indexText(path, text);
+  }
+
+  /** Every OpenSCAD file of the project */
+  async projectFiles(): Promise<IndexedFile[]> {
+    const files: IndexedFile[] = [];
+    for (const path of await this.list()) {
+      const file = await this.getFile(path);
+      if (file) files.push(file);
+    }
+    return files;
+  }
+
+  /**
+   * `path` and every file it reaches through `include` and `use`, each once.
+   * `text` stands in for the contents of `path` (e.g. an unsaved buffer).
+   */
+  async importGraph(path: string, text?: string): Promise<IndexedFile[]> {
+    const root =
+      text === undefined
+        ? await this.getFile(path)
+        : this.indexText(path, text);
+    if (!root) return [];
+    const seen = new Map<string, IndexedFile>([[path, root]]);
+    const queue = [root];
+    while (queue.length) {
+      const file = queue.shift()!;
+      for (const imp of file.imports) {
+        if (seen.has(imp.path)) continue;
+        const child = await this.getFile(imp.path);
+        if (!child) continue;
+        seen.set(imp.path, child);
+        queue.push(child);
+      }
+    }
+    return [...seen.values()];
+  }
+
+  /**
+   * Symbols usable in `path`: its own, everything from included files, and
+   * the modules and functions of used files (which don't pass on their own
+   * `use`s, as in OpenSCAD).
+   */
+  async visibleSymbols(
+    path: string,
+    text?: string
+  ): Promise<SymbolDefinition[]> {
+    const root =
+      text === undefined
+        ? await this.getFile(path)
+        : this.indexText(path, text);
+    if (!root) return [];
+    const symbols: SymbolDefinition[] = [];
+    const visited = new Set<string>();
+    const visit = async (file: IndexedFile, usedOnly: boolean) => {
+      const key = `${usedOnly ? "use" : "include"}:${file.path}`;
+      if (visited.has(key)) return;
+      visited.add(key);
+      for (const symbol of file.symbols) {
+        if (!usedOnly || symbol.kind !== "variable") symbols.push(symbol);
+      }
+      for (const imp of file.imports) {
+        if (usedOnly && imp.kind === "use") continue;
+        const child = await this.getFile(imp.path);
+        if (child) await visit(child, usedOnly || imp.kind === "use");
+      }
+    };
+    await visit(root, false);
+    return symbols;
+  }
+}
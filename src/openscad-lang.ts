@@ -1,4 +1,32 @@
+import { useEffect, useRef } from "react";
 import { useMonaco } from "@monaco-editor/react";
+import { BUILTINS, type BuiltinKind } from "./openscad-builtins";
+import { registerCompletionProvider } from "./openscad-completion";
+import { registerFoldingRangeProvider } from "./openscad-folding";
+import { registerFormattingProvider } from "./openscad-formatter";
+import { registerHelpProviders } from "./openscad-help";
+import type { SourceIndex } from "./openscad-index";
+import { KEYWORDS } from "./openscad-lexer";
+import { registerNavigationProviders } from "./openscad-navigation";
+import { registerDocumentSymbolProvider } from "./openscad-outline";
+import { registerRenameProvider, type FileRewrite } from "./openscad-rename";
+
+/** What the language features need to know about the editor's file */
+export type OpenSCADLanguageContext = {
+  index: SourceIndex | null;
+  /** Path of the file in the editor */
+  filePath: string | null;
+  /** Show a file (project-relative or absolute) at the given position */
+  openLocation?: (path: string, lineNumber: number, column: number) => void;
+  /**
+   * Write a rename into files other than the editor's: open tabs get unsaved
+   * changes, other project files are saved once the user confirms. Resolves
+   * to false when they cancel.
+   */
+  applyRewrites?: (rewrites: FileRewrite[]) => Promise<boolean>;
+};
+
+const LITERALS = ["true", "false", "undef"];
 
 export function useRegisterOpenSCADLanguage() {
   const monaco = useMonaco();
@@ -13,112 +41,119 @@ export function useRegisterOpenSCADLanguage() {
     inherit: true,
     rules: [
       { token: "keyword", foreground: "C586C0" },
+      { token: "constant", foreground: "569CD6" },
+      { token: "builtin.module", foreground: "4EC9B0" },
+      { token: "builtin.function", foreground: "DCDCAA" },
+      { token: "variable.special", foreground: "4FC1FF" },
+      { token: "modifier", foreground: "F44747", fontStyle: "bold" },
       { token: "identifier", foreground: "9CDCFE" },
       { token: "number", foreground: "B5CEA8" },
       { token: "operator", foreground: "D4D4D4" },
       { token: "string", foreground: "CE9178" },
+      { token: "string.escape", foreground: "D7BA7D" },
+      { token: "string.path", foreground: "CE9178", fontStyle: "underline" },
       { token: "comment", foreground: "6A9955", fontStyle: "italic" },
+      { token: "annotation.export", foreground: "E5C07B", fontStyle: "bold" },
     ],
     colors: {},
   });
 
-  // Define the Monarch tokens provider for OpenSCAD
+  const names = (kind: BuiltinKind) =>
+    BUILTINS.filter((b) => b.kind === kind).map((b) => b.name);
+
+  // Define the Monarch tokens provider for OpenSCAD. The states track enough
+  // context to tell the `! # % *` modifiers in front of a module from the
+  // operators of the same name in expressions.
   monaco.languages.setMonarchTokensProvider("openscad", {
-    // Default token and file extension
     defaultToken: "",
     tokenPostfix: ".scad",
 
-    // OpenSCAD keywords – add more as needed
-    keywords: [
-      "module",
-      "function",
-      "if",
-      "else",
-      "for",
-      "let",
-      "intersection_for",
-      "union",
-      "difference",
-      "intersection",
-      "translate",
-      "rotate",
-      "scale",
-      "mirror",
-      "hull",
-      "minkowski",
-      "import",
-      "include",
-      "render",
-      "echo",
-    ],
+    keywords: [...KEYWORDS].filter((k) => !LITERALS.includes(k)),
+    constants: [...LITERALS, ...names("constant")],
+    builtinModules: names("module"),
+    builtinFunctions: names("function"),
 
-    // Operators
-    operators: [
-      "=",
-      "==",
-      "!=",
-      "<",
-      ">",
-      "<=",
-      ">=",
-      "+",
-      "-",
-      "*",
-      "/",
-      "%",
-      "^",
-      "&&",
-      "||",
-      "!",
+    brackets: [
+      { open: "{", close: "}", token: "delimiter.curly" },
+      { open: "[", close: "]", token: "delimiter.square" },
+      { open: "(", close: ")", token: "delimiter.parenthesis" },
     ],
 
     // Symbols used for operators
-    symbols: /[=><!~?:&|+\-*/^%]+/,
+    symbols: /[=><!~?:&|+\-*/^%#.]+/,
 
-    // String escape sequences
-    escapes: /\\(?:[nrt\\"'])/,
+    // Escapes OpenSCAD understands in strings
+    escapes: /\\(?:[nrt\\"']|x[0-9A-Fa-f]{2}|u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{6})/,
 
-    // The main tokenizer for our language
     tokenizer: {
+      // Statements: modules, definitions and the start of assignments
       root: [
-        // Whitespace and comments
+        { include: "@common" },
+        [/[!#%*]/, "modifier"],
+        [/=/, { token: "operator", next: "@assignment" }],
+        [/[([]/, { token: "@brackets", next: "@parens" }],
+        [/[{}()[\]]/, "@brackets"],
+        [/[;,]/, "delimiter"],
+        [/@symbols/, "operator"],
+      ],
+
+      // Arguments, parameters and lists
+      parens: [
+        { include: "@common" },
+        [/[([]/, { token: "@brackets", next: "@parens" }],
+        [/[)\]]/, { token: "@brackets", next: "@pop" }],
+        [/[{}]/, "@brackets"],
+        [/[;,]/, "delimiter"],
+        [/@symbols/, "operator"],
+      ],
+
+      // The value of an assignment or function definition, up to its `;`
+      assignment: [
+        { include: "@common" },
+        [/[([]/, { token: "@brackets", next: "@parens" }],
+        [/;/, { token: "delimiter", next: "@pop" }],
+        [/[{}]/, { token: "@brackets", next: "@pop" }],
+        [/[)\]]/, "@brackets"],
+        [/,/, "delimiter"],
+        [/@symbols/, "operator"],
+      ],
+
+      common: [
         { include: "@whitespace" },
 
-        // Identifiers and keywords
+        // `include <file.scad>` and `use <file.scad>`
+        [/(include|use)(\s*)(<[^>\n]*>)/, ["keyword", "white", "string.path"]],
+
+        // `$fn`, `$children` and any other special variable
+        [/\$\w+/, "variable.special"],
+
         [
-          /[a-zA-Z_]\w*/,
+          /[A-Za-z_]\w*/,
           {
             cases: {
               "@keywords": "keyword",
+              "@constants": "constant",
+              "@builtinModules": "builtin.module",
+              "@builtinFunctions": "builtin.function",
               "@default": "identifier",
             },
           },
         ],
 
-        // Numbers: float and integer
-        [/\d*\.\d+([eE][-+]?\d+)?/, "number.float"],
+        // Numbers: hex, float with optional exponent, integer
+        [/0[xX][0-9a-fA-F]+/, "number.hex"],
+        [/(\d+\.\d*|\.\d+)([eE][-+]?\d+)?/, "number.float"],
+        [/\d+[eE][-+]?\d+/, "number.float"],
         [/\d+/, "number"],
 
-        // Delimiters and operators
-        [/[{}()[\]]/, "@brackets"],
-        [/[;,]/, "delimiter"],
-        [
-          /@symbols/,
-          {
-            cases: {
-              "@operators": "operator",
-              "@default": "",
-            },
-          },
-        ],
-
         // Strings
         [/"/, { token: "string.quote", bracket: "@open", next: "@string" }],
       ],
 
-      // Whitespace and comments
+      // Whitespace, comments and the `// @export` family of directives
       whitespace: [
         [/[ \t\r\n]+/, "white"],
+        [/\/\/\s*!?@(export|end|group|endgroup)\b.*$/, "annotation.export"],
         [/\/\/.*$/, "comment"],
         [/\/\*/, "comment", "@comment"],
       ],
@@ -126,7 +161,6 @@ export function useRegisterOpenSCADLanguage() {
       // Multi-line comment
       comment: [
         [/[^/*]+/, "comment"],
-        [/\/\*/, "comment", "@comment"],
         [/\*\//, "comment", "@pop"],
         [/[/*]/, "comment"],
       ],
@@ -141,3 +175,44 @@ export function useRegisterOpenSCADLanguage() {
     },
   });
 }
+
+/**
+ * Register the OpenSCAD editing features (completion, navigation, ...) once
+ * Monaco is loaded. They read `context` when invoked, so it may change freely.
+ */
+export function useOpenSCADLanguageFeatures(context: OpenSCADLanguageContext) {
+  const monaco = useMonaco();
+  const contextRef = useRef(context);
+  contextRef.current = context;
+
+  useEffect(() => {
+    if (!monaco) return;
+    const getContext = () => contextRef.current;
+    const disposables = [
+      monaco.languages.setLanguageConfiguration("openscad", {
+        // `$fn` and friends are one word
+        wordPattern: /(-?\d*\.\d\w*)|(\$?[A-Za-z_]\w*)/g,
+        comments: { lineComment: "//", blockComment: ["/*", "*/"] },
+        brackets: [
+          ["{", "}"],
+          ["[", "]"],
+          ["(", ")"],
+        ],
+        autoClosingPairs: [
+          { open: "{", close: "}" },
+          { open: "[", close: "]" },
+          { open: "(", close: ")" },
+          { open: '"', close: '"', notIn: ["string", "comment"] },
+        ],
+      }),
+      registerCompletionProvider(monaco, getContext),
+      ...registerNavigationProviders(monaco, getContext),
+      ...registerHelpProviders(monaco, getContext),
+      registerFormattingProvider(monaco),
+      registerDocumentSymbolProvider(monaco, getContext),
+      registerFoldingRangeProvider(monaco, getContext),
+      registerRenameProvider(monaco, getContext),
+    ];
+    return () => disposables.forEach((d) => d.dispose());
+  }, [monaco]);
+}
@@ -0,0 +1,315 @@
+/**
+ * Tokenizer for OpenSCAD sources.
+ *
+ * Comments are not tokens: they are collected separately (with their ranges)
+ * so the parser never sees them, while features that care about them, such as
+ * `// @export` markers, can still look them up.
+ */
+
+/** Half-open character offsets into the source: `[start, end)` */
+export type SourceRange = {
+  start: number;
+  end: number;
+};
+
+export type TokenKind =
+  | "identifier"
+  | "keyword"
+  | "number"
+  | "string"
+  /** The `<...>` after `include`/`use`; `value` is the path */
+  | "path"
+  | "punctuation"
+  | "invalid"
+  | "eof";
+
+export type Token = {
+  kind: TokenKind;
+  /** Source text of the token */
+  text: string;
+  start: number;
+  end: number;
+  /** Decoded value of string and path tokens */
+  value?: string;
+};
+
+export type Comment = {
+  kind: "line" | "block";
+  /** Full comment text, including the `//` or `/* *\/` delimiters */
+  text: string;
+  range: SourceRange;
+};
+
+export type SyntaxProblem = {
+  message: string;
+  range: SourceRange;
+};
+
+export type LexResult = {
+  tokens: Token[];
+  comments: Comment[];
+  errors: SyntaxProblem[];
+};
+
+export const KEYWORDS = new Set([
+  "module",
+  "function",
+  "include",
+  "use",
+  "if",
+  "else",
+  "for",
+  "let",
+  "each",
+  "assert",
+  "echo",
+  "true",
+  "false",
+  "undef",
+]);
+
+// Longest first so `<=` wins over `<`
+const PUNCTUATION = [
+  "<=",
+  ">=",
+  "==",
+  "!=",
+  "&&",
+  "||",
+  "{",
+  "}",
+  "(",
+  ")",
+  "[",
+  "]",
+  ";",
+  ",",
+  "=",
+  "?",
+  ":",
+  ".",
+  "!",
+  "#",
+  "%",
+  "*",
+  "+",
+  "-",
+  "/",
+  "^",
+  "<",
+  ">",
+];
+
+const WHITESPACE = /[ \t\r\n\f\v\u00a0\ufeff]+/y;
+const NUMBER = /0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const IDENTIFIER = /\$?[A-Za-z0-9_]+/y;
+const INCLUDE_PATH = /[ \t\r\n]*<([^>\n]*)>/y;
+
+function matchAt(regex: RegExp, source: string, pos: number): string | null {
+  regex.lastIndex = pos;
+  const match = regex.exec(source);
+  return match ? match[0] : null;
+}
+
+/**
+ * Decode the escapes OpenSCAD understands in string literals. Unknown escapes
+ * keep the escaped character.
+ */
+export function decodeStringLiteral(raw: string): string {
+  return raw.replace(
+    /\\(x[0-9a-fA-F]{1,2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{6}|[\s\S])/g,
+    (_, esc: string) => {
+      switch (esc[0]) {
+        case "n":
+          return "\n";
+        case "t":
+          return "\t";
+        case "r":
+          return "\r";
+        case "x":
+        case "u":
+        case "U":
+          if (esc.length > 1) {
+            return String.fromCodePoint(parseInt(esc.slice(1), 16));
+          }
+          return esc;
+        default:
+          return esc;
+      }
+    }
+  );
+}
+
+/**
+ * Split `source` into tokens. Never throws: unterminated strings and comments
+ * and stray characters are reported in `errors`, and the token list always
+ * ends with an `eof` token.
+ */
+export function tokenize(source: string): LexResult {
+  const tokens: Token[] = [];
+  const comments: Comment[] = [];
+  const errors: SyntaxProblem[] = [];
+  let pos = 0;
+
+  const push = (
+    kind: TokenKind,
+    start: number,
+    end: number,
+    value?: string
+  ) => {
+    const token: Token = { kind, text: source.slice(start, end), start, end };
+    if (value !== undefined) token.value = value;
+    tokens.push(token);
+  };
+
+  while (pos < source.length) {
+    const ws = matchAt(WHITESPACE, source, pos);
+    if (ws) {
+      pos += ws.length;
+      continue;
+    }
+
+    const start = pos;
+    const ch = source[pos];
+    const next = source[pos + 1];
+
+    if (ch === "/" && next === "/") {
+      const newline = source.indexOf("\n", pos);
+      pos = newline === -1 ? source.length : newline;
+      // A trailing \r belongs to the line ending, not the comment
+      const end = source[pos - 1] === "\r" ? pos - 1 : pos;
+      comments.push({
+        kind: "line",
+        text: source.slice(start, end),
+        range: { start, end },
+      });
+      continue;
+    }
+
+    if (ch === "/" && next === "*") {
+      const close = source.indexOf("*/", pos + 2);
+      pos = close === -1 ? source.length : close + 2;
+      comments.push({
+        kind: "block",
+        text: source.slice(start, pos),
+        range: { start, end: pos },
+      });
+      if (close === -1) {
+        errors.push({
+          message: "Unterminated comment",
+          range: { start, end: start + 2 },
+        });
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      pos++;
+      while (pos < source.length && source[pos] !== '"') {
+        pos += source[pos] === "\\" ? 2 : 1;
+      }
+      if (pos >= source.length) {
+        pos = source.length;
+        errors.push({
+          message: "Unterminated string",
+          range: { start, end: start + 1 },
+        });
+        push(
+          "string",
+          start,
+          pos,
+          decodeStringLiteral(source.slice(start + 1))
+        );
+        continue;
+      }
+      pos++;
+      push(
+        "string",
+        start,
+        pos,
+        decodeStringLiteral(source.slice(start + 1, pos - 1))
+      );
+      continue;
+    }
+
+    // Identifiers may start with digits (`2d_shape`), so take whichever of
+    // the number and identifier matches is longer
+    const number = /[\d.]/.test(ch) ? matchAt(NUMBER, source, pos) : null;
+    const identifier = matchAt(IDENTIFIER, source, pos);
+    if (number && (!identifier || number.length >= identifier.length)) {
+      pos += number.length;
+      push("number", start, pos);
+      continue;
+    }
+    if (identifier && identifier !== "$") {
+      pos += identifier.length;
+      if (!KEYWORDS.has(identifier)) {
+        push("identifier", start, pos);
+        continue;
+      }
+      push("keyword", start, pos);
+      if (identifier === "include" || identifier === "use") {
+        INCLUDE_PATH.lastIndex = pos;
+        const path = INCLUDE_PATH.exec(source);
+        if (path) {
+          const pathStart = pos + path[0].indexOf("<");
+          pos += path[0].length;
+          push("path", pathStart, pos, path[1]);
+        }
+      }
+      continue;
+    }
+
+    const punctuation = PUNCTUATION.find((p) => source.startsWith(p, pos));
+    if (punctuation) {
+      pos += punctuation.length;
+      push("punctuation", start, pos);
+      continue;
+    }
+
+    pos++;
+    push("invalid", start, pos);
+    errors.push({
+      message: `Unexpected character "${ch}"`,
+      range: { start, end: pos },
+    });
+  }
+
+  push("eof", source.length, source.length);
+  return { tokens, comments, errors };
+}
+
+/**
+ * Offsets at which each line starts, for converting between offsets and
+ * 1-based line/column positions (Monaco's convention).
+ */
+export function computeLineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+export function positionAt(
+  lineStarts: number[],
+  offset: number
+): { line: number; column: number } {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+export function offsetAt(
+  lineStarts: number[],
+  line: number,
+  column: number
+): number {
+  const index = Math.min(Math.max(line, 1), lineStarts.length) - 1;
+  return lineStarts[index] + Math.max(column, 1) - 1;
+}
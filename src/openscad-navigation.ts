@@ -0,0 +1,279 @@
+/**
+ * Go to definition and find references, across the files reachable through
+ * `include` and `use`.
+ */
+import type { Monaco } from "@monaco-editor/react";
+import type { editor, IDisposable, languages, Uri } from "monaco-editor";
+import type {
+  IndexedFile,
+  SourceIndex,
+  SymbolDefinition,
+} from "./openscad-index";
+import type { SourceRange } from "./openscad-lexer";
+import type { OpenSCADLanguageContext } from "./openscad-lang";
+import { referenceAt, type Namespace, type Reference } from "./openscad-scopes";
+
+export type SourceLocation = {
+  file: string;
+  range: SourceRange;
+};
+
+// Files other than the one in the editor get models under this scheme, with
+// the VM's path convention: /@/ for project files, absolute otherwise
+const URI_SCHEME = "openscad-source";
+
+export function uriForPath(monaco: Monaco, path: string): Uri {
+  return monaco.Uri.from({
+    scheme: URI_SCHEME,
+    path: path.startsWith("/") ? path : `/@/${path}`,
+  });
+}
+
+export function pathForUri(uri: Uri): string | null {
+  if (uri.scheme !== URI_SCHEME) return null;
+  return uri.path.startsWith("/@/") ? uri.path.slice(3) : uri.path;
+}
+
+const namespaceMatches = (symbol: SymbolDefinition, namespace: Namespace) =>
+  symbol.kind === namespace ||
+  // Calling a variable that holds a function literal
+  (namespace === "function" && symbol.kind === "variable");
+
+const definitionKey = (file: string, range: SourceRange) =>
+  `${file}:${range.start}`;
+
+/**
+ * The top-level definition a name refers to in `path` when nothing local
+ * binds it. Functions win over variables holding function literals.
+ */
+export async function resolveGlobal(
+  index: SourceIndex,
+  path: string,
+  name: string,
+  namespace: Namespace
+): Promise<SymbolDefinition | null> {
+  const symbols = await index.visibleSymbols(path);
+  return (
+    symbols.find((s) => s.name === name && s.kind === namespace) ??
+    symbols.find((s) => s.name === name && namespaceMatches(s, namespace)) ??
+    null
+  );
+}
+
+/**
+ * The definition and, for top-level symbols, the symbol info of the name at
+ * `offset`.
+ */
+async function resolveAt(
+  index: SourceIndex,
+  path: string,
+  text: string,
+  offset: number
+): Promise<
+  | { reference: Reference; local: true }
+  | { reference: Reference; local: false; symbol: SymbolDefinition }
+  | null
+> {
+  const file = index.indexText(path, text);
+  const reference = referenceAt(index.scopesOf(file), offset);
+  if (!reference) return null;
+  if (reference.binding && !reference.binding.global) {
+    return { reference, local: true };
+  }
+  const symbol = await resolveGlobal(
+    index,
+    path,
+    reference.name,
+    reference.namespace
+  );
+  return symbol ? { reference, local: false, symbol } : null;
+}
+
+export async function findDefinition(
+  index: SourceIndex,
+  path: string,
+  text: string,
+  offset: number
+): Promise<SourceLocation | null> {
+  const resolved = await resolveAt(index, path, text, offset);
+  if (!resolved) return null;
+  if (resolved.local) {
+    return { file: path, range: resolved.reference.binding!.nameRange };
+  }
+  return { file: resolved.symbol.file, range: resolved.symbol.nameRange };
+}
+
+/**
+ * Every use of the name at `offset` that refers to the same definition, in
+ * `path` and the files it reaches (or in `files`, when given).
+ */
+export async function findReferences(
+  index: SourceIndex,
+  path: string,
+  text: string,
+  offset: number,
+  includeDeclaration: boolean,
+  files?: IndexedFile[]
+): Promise<SourceLocation[]> {
+  const resolved = await resolveAt(index, path, text, offset);
+  if (!resolved) return [];
+  const wanted = (r: Reference) => includeDeclaration || !r.isDefinition;
+
+  if (resolved.local) {
+    const { binding } = resolved.reference;
+    const file = index.indexText(path, text);
+    return index
+      .scopesOf(file)
+      .references.filter((r) => r.binding === binding && wanted(r))
+      .map((r) => ({ file: path, range: r.range }));
+  }
+
+  const { symbol } = resolved;
+  const target = definitionKey(symbol.file, symbol.nameRange);
+  const searched = files ?? (await index.importGraph(path, text));
+  const locations: SourceLocation[] = [];
+  for (const file of searched) {
+    const resolvedHere = new Map<string, string | null>();
+    for (const r of index.scopesOf(file).references) {
+      if (r.name !== symbol.name || !wanted(r)) continue;
+      if (!namespaceMatches(symbol, r.namespace)) continue;
+      let key: string | null;
+      if (r.binding) {
+        if (!r.binding.global) continue;
+        key = definitionKey(file.path, r.binding.nameRange);
+      } else {
+        if (!resolvedHere.has(r.namespace)) {
+          const found = await resolveGlobal(
+            index,
+            file.path,
+            r.name,
+            r.namespace
+          );
+          resolvedHere.set(
+            r.namespace,
+            found && definitionKey(found.file, found.nameRange)
+          );
+        }
+        key = resolvedHere.get(r.namespace)!;
+      }
+      if (key === target) locations.push({ file: file.path, range: r.range });
+    }
+  }
+  return locations;
+}
+
+/**
+ * Path of the file shown in `model`: the editor's file, or the one a peek
+ * view model was created for.
+ */
+export function pathForModel(
+  model: editor.ITextModel,
+  context: OpenSCADLanguageContext
+): string | null {
+  return pathForUri(model.uri) ?? context.filePath;
+}
+
+/**
+ * A Monaco location. The file in `model` uses that model; other files get a
+ * model of their own so peek views can show them.
+ */
+export async function toMonacoLocation(
+  monaco: Monaco,
+  model: editor.ITextModel,
+  index: SourceIndex,
+  modelPath: string,
+  location: SourceLocation
+): Promise<languages.Location | null> {
+  let target = model;
+  if (location.file !== modelPath) {
+    const file = await index.getFile(location.file);
+    if (!file) return null;
+    const uri = uriForPath(monaco, location.file);
+    const existing = monaco.editor.getModel(uri);
+    if (existing && existing.getValue() !== file.text) {
+      existing.setValue(file.text);
+    }
+    target = existing ?? monaco.editor.createModel(file.text, "openscad", uri);
+  }
+  const start = target.getPositionAt(location.range.start);
+  const end = target.getPositionAt(location.range.end);
+  return {
+    uri: target.uri,
+    range: {
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column,
+    },
+  };
+}
+
+export function registerNavigationProviders(
+  monaco: Monaco,
+  getContext: () => OpenSCADLanguageContext
+): IDisposable[] {
+  const toLocations = async (
+    model: editor.ITextModel,
+    index: SourceIndex,
+    modelPath: string,
+    locations: SourceLocation[]
+  ) => {
+    const converted = await Promise.all(
+      locations.map((l) => toMonacoLocation(monaco, model, index, modelPath, l))
+    );
+    return converted.filter((l): l is languages.Location => l !== null);
+  };
+
+  return [
+    monaco.languages.registerDefinitionProvider("openscad", {
+      async provideDefinition(model, position) {
+        const context = getContext();
+        const { index } = context;
+        const filePath = pathForModel(model, context);
+        if (!index || !filePath) return null;
+        const location = await findDefinition(
+          index,
+          filePath,
+          model.getValue(),
+          model.getOffsetAt(position)
+        );
+        return location
+          ? toLocations(model, index, filePath, [location])
+          : null;
+      },
+    }),
+    monaco.languages.registerReferenceProvider("openscad", {
+      async provideReferences(model, position, { includeDeclaration }) {
+        const context = getContext();
+        const { index } = context;
+        const filePath = pathForModel(model, context);
+        if (!index || !filePath) return null;
+        const locations = await findReferences(
+          index,
+          filePath,
+          model.getValue(),
+          model.getOffsetAt(position),
+          includeDeclaration
+        );
+        return toLocations(model, index, filePath, locations);
+      },
+    }),
+    // Jumps into other files go through the tab manager
+    monaco.editor.registerEditorOpener({
+      openCodeEditor(_source, resource, selectionOrPosition) {
+        const path = pathForUri(resource);
+        const { openLocation } = getContext();
+        if (path === null || !openLocation) return false;
+        const position =
+          selectionOrPosition && "startLineNumber" in selectionOrPosition
+            ? {
+                lineNumber: selectionOrPosition.startLineNumber,
+                column: selectionOrPosition.startColumn,
+              }
+            : (selectionOrPosition ?? { lineNumber: 1, column: 1 });
+        openLocation(path, position.lineNumber, position.column);
+        return true;
+      },
+    }),
+  ];
+}
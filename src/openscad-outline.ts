@@ -0,0 +1,220 @@
+/**
+ * The outline of an OpenSCAD file: its top-level modules, functions and
+ * variables, inside the `// @export` parts and `// @group` folders they
+ * belong to. Shown in the outline panel and breadcrumbs, and offered to
+ * Monaco as document symbols.
+ */
+import type { Monaco } from "@monaco-editor/react";
+import type { IDisposable, languages } from "monaco-editor";
+import {
+  collectDefinitions,
+  type IndexedFile,
+  type SymbolKind,
+} from "./openscad-index";
+import {
+  computeLineStarts,
+  positionAt,
+  type SourceRange,
+} from "./openscad-lexer";
+import type { OpenSCADLanguageContext } from "./openscad-lang";
+import { pathForModel } from "./openscad-navigation";
+import {
+  findPartDirectives,
+  parseExportBlocks,
+  type ExportBlock,
+} from "./openscad-parsing";
+import { parseOpenSCAD } from "./openscad-parser";
+
+export type OutlineKind = SymbolKind | "part" | "group";
+
+/** 1-based lines and columns, like Monaco */
+export type LineRange = {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+};
+
+export type OutlineItem = {
+  name: string;
+  kind: OutlineKind;
+  /** Signature of modules and functions, value of variables */
+  detail: string;
+  /** The whole item, for finding what the cursor is in */
+  range: LineRange;
+  /** Where to put the cursor when the item is picked */
+  selectionRange: LineRange;
+  children: OutlineItem[];
+};
+
+export function buildOutline(
+  file: Pick<IndexedFile, "text" | "program" | "symbols">
+): OutlineItem[] {
+  const { text, program } = file;
+  const lineStarts = computeLineStarts(text);
+  const toLineRange = ({ start, end }: SourceRange): LineRange => {
+    const from = positionAt(lineStarts, start);
+    const to = positionAt(lineStarts, end);
+    return {
+      startLine: from.line,
+      startColumn: from.column,
+      endLine: to.line,
+      endColumn: to.column,
+    };
+  };
+
+  type Pending = { item: OutlineItem; source: SourceRange };
+  const symbols: Pending[] = file.symbols.map((symbol) => ({
+    item: {
+      name: symbol.name,
+      kind: symbol.kind,
+      detail:
+        symbol.kind === "variable"
+          ? symbol.signature.slice(symbol.name.length + 3)
+          : symbol.signature,
+      range: toLineRange(symbol.range),
+      selectionRange: toLineRange(symbol.nameRange),
+      children: [],
+    },
+    source: symbol.range,
+  }));
+
+  const directives = findPartDirectives(text, program);
+  let blocks: ExportBlock[] = [];
+  try {
+    blocks = parseExportBlocks(text, program, directives);
+  } catch {
+    // Broken markers (duplicate names, stray `@endgroup`) are reported when
+    // rendering; the outline just shows no parts
+  }
+
+  const parts: Pending[] = blocks.map((block) => {
+    const directive = directives.find(
+      (d) => d.kind === "export" && d.name === block.name
+    )!;
+    const source = { start: block.start, end: block.end };
+    return {
+      item: {
+        name: block.name,
+        kind: "part",
+        detail: block.exported ? "" : "not exported",
+        range: toLineRange(source),
+        selectionRange: toLineRange(directive.comment.range),
+        children: symbols
+          .filter((s) => s.source.start >= source.start)
+          .filter((s) => s.source.end <= source.end)
+          .map((s) => s.item),
+      },
+      source,
+    };
+  });
+  const inPart = new Set(parts.flatMap((p) => p.item.children));
+
+  // Groups hold the parts between `@group` and `@endgroup`
+  const top: Pending[] = symbols.filter((s) => !inPart.has(s.item));
+  const open: Pending[] = [];
+  const place = (entry: Pending) => {
+    const parent = open[open.length - 1];
+    if (parent) {
+      parent.item.children.push(entry.item);
+      parent.source.end = Math.max(parent.source.end, entry.source.end);
+    } else {
+      top.push(entry);
+    }
+  };
+  const closeGroup = (group: Pending) => {
+    group.item.range = toLineRange(group.source);
+    place(group);
+  };
+  for (const directive of directives) {
+    if (directive.kind === "group") {
+      open.push({
+        item: {
+          name: directive.name,
+          kind: "group",
+          detail: "",
+          range: toLineRange(directive.comment.range),
+          selectionRange: toLineRange(directive.comment.range),
+          children: [],
+        },
+        source: { ...directive.comment.range },
+      });
+    } else if (directive.kind === "endgroup") {
+      const group = open.pop();
+      if (!group) continue;
+      group.source.end = directive.comment.range.end;
+      closeGroup(group);
+    } else if (directive.kind === "export") {
+      const part = parts.find((p) => p.item.name === directive.name);
+      if (part) place(part);
+    }
+  }
+  while (open.length) closeGroup(open.pop()!);
+
+  return top
+    .sort((a, b) => a.source.start - b.source.start)
+    .map((entry) => entry.item);
+}
+
+/** The items around `line`, outermost first */
+export function outlinePath(items: OutlineItem[], line: number): OutlineItem[] {
+  const path: OutlineItem[] = [];
+  let level = items;
+  for (;;) {
+    const found = level.find(
+      (item) => item.range.startLine <= line && line <= item.range.endLine
+    );
+    if (!found) return path;
+    path.push(found);
+    level = found.children;
+  }
+}
+
+export function registerDocumentSymbolProvider(
+  monaco: Monaco,
+  getContext: () => OpenSCADLanguageContext
+): IDisposable {
+  const { SymbolKind } = monaco.languages;
+  const kinds: Record<OutlineKind, languages.SymbolKind> = {
+    module: SymbolKind.Module,
+    function: SymbolKind.Function,
+    variable: SymbolKind.Variable,
+    part: SymbolKind.Package,
+    group: SymbolKind.Namespace,
+  };
+  const toRange = (range: LineRange) => ({
+    startLineNumber: range.startLine,
+    startColumn: range.startColumn,
+    endLineNumber: range.endLine,
+    endColumn: range.endColumn,
+  });
+  const toSymbol = (item: OutlineItem): languages.DocumentSymbol => ({
+    name: item.name,
+    detail: item.detail,
+    kind: kinds[item.kind],
+    tags: [],
+    range: toRange(item.range),
+    selectionRange: toRange(item.selectionRange),
+    children: item.children.map(toSymbol),
+  });
+
+  return monaco.languages.registerDocumentSymbolProvider("openscad", {
+    provideDocumentSymbols(model) {
+      const context = getContext();
+      const text = model.getValue();
+      const path = pathForModel(model, context);
+      let file: Pick<IndexedFile, "text" | "program" | "symbols">;
+      if (context.index && path) {
+        file = context.index.indexText(path, text);
+      } else {
+        const program = parseOpenSCAD(text);
+        file = {
+          text,
+          program,
+          symbols: collectDefinitions(program, "", text),
+        };
+      }
+      return buildOutline(file).map(toSymbol);
+    },
+  });
+}
@@ -0,0 +1,153 @@
+/**
+ * Named Customizer presets stored next to the model, in the same format
+ * OpenSCAD's Customizer uses (`model.scad` → `model.json`):
+ *
+ *   {
+ *       "parameterSets": {
+ *           "M3 version": { "hole": "3.2", "label": "M3" }
+ *       },
+ *       "fileFormatVersion": "1"
+ *   }
+ *
+ * Every value is a string: numbers and vectors as OpenSCAD writes them,
+ * strings unquoted.
+ */
+import {
+  customizerValuesEqual,
+  type CustomizerParameter,
+  type CustomizerValue,
+} from "./openscad-customizer";
+import { getFileHandleByPath } from "./utils/fsaUtils";
+import { writeTextFile } from "./utils/fsaWriteUtils";
+import { emitUiLog } from "./utils/uiLogger";
+
+export type ParameterSet = Record<string, string>;
+export type ParameterSets = Record<string, ParameterSet>;
+
+export function parameterSetsPathFor(scadPath: string): string {
+  return scadPath.replace(/\.scad$/i, "") + ".json";
+}
+
+async function readJsonFile(
+  root: FileSystemDirectoryHandle,
+  path: string
+): Promise<Record<string, unknown> | null> {
+  const handle = await getFileHandleByPath(root, path);
+  if (!handle) return null;
+  const text = await (await handle.getFile()).text();
+  const parsed: unknown = JSON.parse(text);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`${path} is not a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Read the presets saved for `scadPath`; no file (or an unreadable one)
+ * means no presets.
+ */
+export async function loadParameterSets(
+  root: FileSystemDirectoryHandle,
+  scadPath: string
+): Promise<ParameterSets> {
+  const path = parameterSetsPathFor(scadPath);
+  let json: Record<string, unknown> | null;
+  try {
+    json = await readJsonFile(root, path);
+  } catch (error) {
+    emitUiLog(
+      "error",
+      `Error reading parameter sets from ${path}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return {};
+  }
+  const sets = json?.parameterSets;
+  if (!sets || typeof sets !== "object") return {};
+  const result: ParameterSets = {};
+  for (const [name, set] of Object.entries(sets as Record<string, unknown>)) {
+    if (!set || typeof set !== "object") continue;
+    result[name] = Object.fromEntries(
+      Object.entries(set as Record<string, unknown>).map(([k, v]) => [
+        k,
+        String(v),
+      ])
+    );
+  }
+  return result;
+}
+
+/**
+ * Write presets back, keeping any other keys OpenSCAD may have put in the file.
+ */
+export async function saveParameterSets(
+  root: FileSystemDirectoryHandle,
+  scadPath: string,
+  sets: ParameterSets
+): Promise<void> {
+  const path = parameterSetsPathFor(scadPath);
+  const existing = await readJsonFile(root, path).catch(() => null);
+  const json = {
+    ...existing,
+    parameterSets: sets,
+    fileFormatVersion: "1",
+  };
+  await writeTextFile(root, path, JSON.stringify(json, null, 4) + "\n");
+}
+
+function toSetValue(value: CustomizerValue): string {
+  if (Array.isArray(value)) return `[${value.join(", ")}]`;
+  return String(value);
+}
+
+function fromSetValue(
+  text: string,
+  defaultValue: CustomizerValue
+): CustomizerValue | null {
+  if (typeof defaultValue === "boolean") return text.trim() === "true";
+  if (typeof defaultValue === "number") {
+    const n = parseFloat(text);
+    return Number.isFinite(n) ? n : null;
+  }
+  if (Array.isArray(defaultValue)) {
+    const items = text.replace(/^\s*\[|\]\s*$/g, "").split(",").map(parseFloat);
+    return items.every(Number.isFinite) ? items : null;
+  }
+  return text;
+}
+
+/**
+ * Snapshot every parameter (overridden or not), like OpenSCAD does when saving
+ * a preset.
+ */
+export function toParameterSet(
+  params: CustomizerParameter[],
+  values: Record<string, CustomizerValue>
+): ParameterSet {
+  const set: ParameterSet = {};
+  for (const param of params) {
+    set[param.name] = toSetValue(values[param.name] ?? param.defaultValue);
+  }
+  return set;
+}
+
+/**
+ * Turn a preset into Customizer overrides. Entries for parameters the file no
+ * longer has, or that can't be read as the parameter's type, are ignored.
+ */
+export function fromParameterSet(
+  params: CustomizerParameter[],
+  set: ParameterSet
+): Record<string, CustomizerValue> {
+  const values: Record<string, CustomizerValue> = {};
+  for (const param of params) {
+    if (!(param.name in set)) continue;
+    const value = fromSetValue(set[param.name], param.defaultValue);
+    if (value === null || customizerValuesEqual(value, param.defaultValue)) {
+      continue;
+    }
+    values[param.name] = value;
+  }
+  return values;
+}
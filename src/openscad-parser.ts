@@ -0,0 +1,643 @@
+/**
+ * Recursive descent parser for OpenSCAD, following the grammar of OpenSCAD's
+ * own parser.y (2021.01 plus list comprehensions, function literals and
+ * `each`).
+ *
+ * The parser recovers from errors statement by statement: a broken statement
+ * is reported and skipped, and the rest of the file is still parsed. An
+ * unterminated `{` block keeps what was parsed so far.
+ */
+import type {
+  Argument,
+  BinaryOperator,
+  BlockStatement,
+  Expression,
+  Identifier,
+  ListElement,
+  Modifier,
+  Parameter,
+  Program,
+  Statement,
+} from "./openscad-ast";
+import {
+  tokenize,
+  type SourceRange,
+  type SyntaxProblem,
+  type Token,
+} from "./openscad-lexer";
+
+class ParseFailure extends Error {
+  range: SourceRange;
+  constructor(message: string, range: SourceRange) {
+    super(message);
+    this.name = "ParseFailure";
+    this.range = range;
+  }
+}
+
+// Binary operators from loosest to tightest; `^` is handled separately as it
+// binds tighter than unary minus and is right-associative
+const BINARY_PRECEDENCE: BinaryOperator[][] = [
+  ["||"],
+  ["&&"],
+  ["==", "!="],
+  ["<", "<=", ">", ">="],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+const MODIFIERS = new Set(["!", "#", "%", "*"]);
+
+const describe = (token: Token) =>
+  token.kind === "eof" ? "end of file" : `"${token.text}"`;
+
+class Parser {
+  private pos = 0;
+  readonly errors: SyntaxProblem[] = [];
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private get current(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private peek(offset = 1): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private is(text: string, token = this.current): boolean {
+    return (
+      token.text === text &&
+      (token.kind === "punctuation" || token.kind === "keyword")
+    );
+  }
+
+  private advance(): Token {
+    const token = this.current;
+    if (token.kind !== "eof") this.pos++;
+    return token;
+  }
+
+  private accept(text: string): Token | null {
+    return this.is(text) ? this.advance() : null;
+  }
+
+  private fail(message: string, token = this.current): never {
+    throw new ParseFailure(message, { start: token.start, end: token.end });
+  }
+
+  private expect(text: string): Token {
+    if (!this.is(text)) {
+      this.fail(`Expected "${text}" but found ${describe(this.current)}`);
+    }
+    return this.advance();
+  }
+
+  /** End offset of the last consumed token */
+  private get lastEnd(): number {
+    return this.pos > 0 ? this.tokens[this.pos - 1].end : 0;
+  }
+
+  private range(start: number): SourceRange {
+    return { start, end: this.lastEnd };
+  }
+
+  private identifier(): Identifier {
+    const token = this.current;
+    if (token.kind !== "identifier") {
+      this.fail(`Expected a name but found ${describe(token)}`);
+    }
+    this.advance();
+    return {
+      type: "Identifier",
+      name: token.text,
+      range: { start: token.start, end: token.end },
+    };
+  }
+
+  // Skip past the broken statement: up to and including the next `;` at this
+  // nesting level, or up to (not including) the `}` that closes the block
+  private synchronize(startPos: number) {
+    let depth = 0;
+    while (this.current.kind !== "eof") {
+      if (this.is("{")) depth++;
+      else if (this.is("}")) {
+        if (depth === 0) break;
+        depth--;
+        if (depth === 0) {
+          this.advance();
+          break;
+        }
+      } else if (this.is(";") && depth === 0) {
+        this.advance();
+        break;
+      }
+      this.advance();
+    }
+    if (this.pos === startPos && this.current.kind !== "eof") this.advance();
+  }
+
+  private statementList(closing: string | null): Statement[] {
+    const statements: Statement[] = [];
+    while (this.current.kind !== "eof" && !(closing && this.is(closing))) {
+      const startPos = this.pos;
+      try {
+        statements.push(this.statement());
+      } catch (err) {
+        if (!(err instanceof ParseFailure)) throw err;
+        this.errors.push({ message: err.message, range: err.range });
+        this.synchronize(startPos);
+      }
+    }
+    return statements;
+  }
+
+  program(): Statement[] {
+    const statements = this.statementList(null);
+    while (this.current.kind !== "eof") {
+      // Stray `}` at the top level
+      this.errors.push({
+        message: `Unexpected ${describe(this.current)}`,
+        range: { start: this.current.start, end: this.current.end },
+      });
+      this.advance();
+      statements.push(...this.statementList(null));
+    }
+    return statements;
+  }
+
+  private block(): BlockStatement {
+    const open = this.expect("{");
+    const statements = this.statementList("}");
+    if (!this.accept("}")) {
+      this.errors.push({
+        message: `Unclosed "{"`,
+        range: { start: open.start, end: open.end },
+      });
+    }
+    return { type: "Block", statements, range: this.range(open.start) };
+  }
+
+  private statement(): Statement {
+    const token = this.current;
+    if (this.is(";")) {
+      this.advance();
+      return { type: "Empty", range: this.range(token.start) };
+    }
+    if (this.is("{")) return this.block();
+    if (this.is("include") || this.is("use")) return this.include();
+    if (this.is("module")) return this.moduleDefinition();
+    if (this.is("function")) return this.functionDefinition();
+    if (token.kind === "identifier" && this.is("=", this.peek())) {
+      const name = this.identifier();
+      this.advance();
+      const value = this.expression();
+      this.expect(";");
+      return {
+        type: "Assignment",
+        name,
+        value,
+        range: this.range(token.start),
+      };
+    }
+    return this.instantiation();
+  }
+
+  private include(): Statement {
+    const keyword = this.advance();
+    const path = this.current;
+    if (path.kind !== "path") {
+      this.fail(`Expected <path> after "${keyword.text}"`);
+    }
+    this.advance();
+    return {
+      type: "Include",
+      kind: keyword.text as "include" | "use",
+      path: path.value ?? "",
+      pathRange: { start: path.start, end: path.end },
+      range: this.range(keyword.start),
+    };
+  }
+
+  private moduleDefinition(): Statement {
+    const start = this.advance().start;
+    const name = this.identifier();
+    const params = this.parameters();
+    const body = this.statement();
+    return {
+      type: "ModuleDefinition",
+      name,
+      params,
+      body,
+      range: this.range(start),
+    };
+  }
+
+  private functionDefinition(): Statement {
+    const start = this.advance().start;
+    const name = this.identifier();
+    const params = this.parameters();
+    this.expect("=");
+    const body = this.expression();
+    this.expect(";");
+    return {
+      type: "FunctionDefinition",
+      name,
+      params,
+      body,
+      range: this.range(start),
+    };
+  }
+
+  // The statement after an instantiation: `;`, a block, or another
+  // instantiation
+  private child(): Statement | null {
+    if (this.accept(";")) return null;
+    if (this.is("{")) return this.block();
+    return this.instantiation();
+  }
+
+  private instantiation(): Statement {
+    const start = this.current.start;
+    const modifiers: Modifier[] = [];
+    while (
+      this.current.kind === "punctuation" &&
+      MODIFIERS.has(this.current.text)
+    ) {
+      modifiers.push(this.advance().text as Modifier);
+    }
+
+    if (this.is("if")) {
+      this.advance();
+      this.expect("(");
+      const condition = this.expression();
+      this.expect(")");
+      const consequent = this.child() ?? this.emptyBefore();
+      const alternate = this.accept("else")
+        ? (this.child() ?? this.emptyBefore())
+        : undefined;
+      return {
+        type: "If",
+        modifiers,
+        condition,
+        consequent,
+        alternate,
+        range: this.range(start),
+      };
+    }
+
+    const token = this.current;
+    let name: Identifier;
+    if (
+      token.kind === "identifier" ||
+      this.is("for") ||
+      this.is("let") ||
+      this.is("echo") ||
+      this.is("assert")
+    ) {
+      this.advance();
+      name = {
+        type: "Identifier",
+        name: token.text,
+        range: { start: token.start, end: token.end },
+      };
+    } else {
+      this.fail(`Unexpected ${describe(token)}`);
+    }
+    const args = this.arguments();
+    const child = this.child();
+    return {
+      type: "ModuleInstantiation",
+      modifiers,
+      name,
+      args,
+      child,
+      range: this.range(start),
+    };
+  }
+
+  // Placeholder for an `if` branch that is just `;`
+  private emptyBefore(): Statement {
+    return {
+      type: "Empty",
+      range: { start: this.lastEnd - 1, end: this.lastEnd },
+    };
+  }
+
+  private parameters(): Parameter[] {
+    this.expect("(");
+    const params: Parameter[] = [];
+    while (!this.is(")")) {
+      const name = this.identifier();
+      const defaultValue = this.accept("=") ? this.expression() : undefined;
+      params.push({
+        type: "Parameter",
+        name,
+        defaultValue,
+        range: this.range(name.range.start),
+      });
+      if (!this.accept(",")) break;
+    }
+    this.expect(")");
+    return params;
+  }
+
+  private argumentList(): Argument[] {
+    const args: Argument[] = [];
+    while (!this.is(")") && !this.is(";")) {
+      const start = this.current.start;
+      let name: Identifier | undefined;
+      if (this.current.kind === "identifier" && this.is("=", this.peek())) {
+        name = this.identifier();
+        this.advance();
+      }
+      const value = this.expression();
+      args.push({ type: "Argument", name, value, range: this.range(start) });
+      if (!this.accept(",")) break;
+    }
+    return args;
+  }
+
+  private arguments(): Argument[] {
+    this.expect("(");
+    const args = this.argumentList();
+    this.expect(")");
+    return args;
+  }
+
+  // ---- Expressions ----
+
+  expression(): Expression {
+    const start = this.current.start;
+    if (this.is("function")) {
+      this.advance();
+      const params = this.parameters();
+      const body = this.expression();
+      return {
+        type: "FunctionLiteral",
+        params,
+        body,
+        range: this.range(start),
+      };
+    }
+    if (this.is("let")) {
+      this.advance();
+      const assignments = this.arguments();
+      const body = this.expression();
+      return { type: "Let", assignments, body, range: this.range(start) };
+    }
+    if (this.is("assert") || this.is("echo")) {
+      const type = this.advance().text === "assert" ? "Assert" : "Echo";
+      const args = this.arguments();
+      const body = this.startsExpression() ? this.expression() : undefined;
+      return { type, args, body, range: this.range(start) };
+    }
+
+    const condition = this.binary(0);
+    if (!this.accept("?")) return condition;
+    const consequent = this.expression();
+    this.expect(":");
+    const alternate = this.expression();
+    return {
+      type: "Ternary",
+      condition,
+      consequent,
+      alternate,
+      range: this.range(start),
+    };
+  }
+
+  private startsExpression(): boolean {
+    const token = this.current;
+    if (
+      token.kind === "identifier" ||
+      token.kind === "number" ||
+      token.kind === "string"
+    ) {
+      return true;
+    }
+    return ["(", "[", "!", "-", "+", "function", "let", "assert", "echo"]
+      .concat(["true", "false", "undef"])
+      .some((text) => this.is(text));
+  }
+
+  private binary(level: number): Expression {
+    if (level === BINARY_PRECEDENCE.length) return this.unary();
+    const start = this.current.start;
+    let left = this.binary(level + 1);
+    const operators = BINARY_PRECEDENCE[level];
+    while (
+      this.current.kind === "punctuation" &&
+      operators.includes(this.current.text as BinaryOperator)
+    ) {
+      const operator = this.advance().text as BinaryOperator;
+      const right = this.binary(level + 1);
+      left = {
+        type: "Binary",
+        operator,
+        left,
+        right,
+        range: this.range(start),
+      };
+    }
+    return left;
+  }
+
+  private unary(): Expression {
+    const start = this.current.start;
+    if (this.is("!") || this.is("-") || this.is("+")) {
+      const operator = this.advance().text as "!" | "-" | "+";
+      const operand = this.unary();
+      return { type: "Unary", operator, operand, range: this.range(start) };
+    }
+    return this.exponent();
+  }
+
+  private exponent(): Expression {
+    const start = this.current.start;
+    const left = this.postfix();
+    if (!this.accept("^")) return left;
+    const right = this.unary();
+    return {
+      type: "Binary",
+      operator: "^",
+      left,
+      right,
+      range: this.range(start),
+    };
+  }
+
+  private postfix(): Expression {
+    const start = this.current.start;
+    let expr = this.primary();
+    for (;;) {
+      if (this.is("(")) {
+        const args = this.arguments();
+        expr = { type: "Call", callee: expr, args, range: this.range(start) };
+      } else if (this.accept("[")) {
+        const index = this.expression();
+        this.expect("]");
+        expr = { type: "Index", object: expr, index, range: this.range(start) };
+      } else if (this.accept(".")) {
+        const property = this.identifier();
+        expr = {
+          type: "Member",
+          object: expr,
+          property,
+          range: this.range(start),
+        };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private primary(): Expression {
+    const token = this.current;
+    const range = { start: token.start, end: token.end };
+    switch (token.kind) {
+      case "number":
+        this.advance();
+        return {
+          type: "Number",
+          value: /^0x/i.test(token.text)
+            ? parseInt(token.text, 16)
+            : parseFloat(token.text),
+          raw: token.text,
+          range,
+        };
+      case "string":
+        this.advance();
+        return {
+          type: "String",
+          value: token.value ?? "",
+          raw: token.text,
+          range,
+        };
+      case "identifier":
+        return this.identifier();
+    }
+    if (this.accept("true") || this.accept("false")) {
+      return { type: "Boolean", value: token.text === "true", range };
+    }
+    if (this.accept("undef")) return { type: "Undef", range };
+    if (this.accept("(")) {
+      const expression = this.expression();
+      this.expect(")");
+      return {
+        type: "Parenthesized",
+        expression,
+        range: this.range(token.start),
+      };
+    }
+    if (this.is("[")) return this.vector();
+    this.fail(`Expected an expression but found ${describe(token)}`);
+  }
+
+  private vector(): Expression {
+    const start = this.expect("[").start;
+    const elements: ListElement[] = [];
+    if (this.accept("]")) {
+      return { type: "Vector", elements, range: this.range(start) };
+    }
+    const first = this.listElement();
+    if (this.accept(":")) {
+      const second = this.expression();
+      let step: Expression | undefined;
+      let end = second;
+      if (this.accept(":")) {
+        step = second;
+        end = this.expression();
+      }
+      this.expect("]");
+      return {
+        type: "Range",
+        start: first as Expression,
+        step,
+        end,
+        range: this.range(start),
+      };
+    }
+    elements.push(first);
+    while (this.accept(",")) {
+      if (this.is("]")) break;
+      elements.push(this.listElement());
+    }
+    this.expect("]");
+    return { type: "Vector", elements, range: this.range(start) };
+  }
+
+  private listElement(): ListElement {
+    const start = this.current.start;
+    if (this.accept("each")) {
+      const body = this.listElement();
+      return { type: "EachElement", body, range: this.range(start) };
+    }
+    if (this.accept("for")) {
+      this.expect("(");
+      const assignments = this.argumentList();
+      let condition: Expression | undefined;
+      let update: Argument[] | undefined;
+      if (this.accept(";")) {
+        condition = this.expression();
+        this.expect(";");
+        update = this.argumentList();
+      }
+      this.expect(")");
+      const body = this.listElement();
+      return {
+        type: "ForElement",
+        assignments,
+        condition,
+        update,
+        body,
+        range: this.range(start),
+      };
+    }
+    if (this.accept("if")) {
+      this.expect("(");
+      const condition = this.expression();
+      this.expect(")");
+      const consequent = this.listElement();
+      const alternate = this.accept("else") ? this.listElement() : undefined;
+      return {
+        type: "IfElement",
+        condition,
+        consequent,
+        alternate,
+        range: this.range(start),
+      };
+    }
+    if (this.is("let")) {
+      this.advance();
+      const assignments = this.arguments();
+      const body = this.listElement();
+      return {
+        type: "LetElement",
+        assignments,
+        body,
+        range: this.range(start),
+      };
+    }
+    return this.expression();
+  }
+}
+
+/**
+ * Parse an OpenSCAD source into a syntax tree. Never throws on bad input:
+ * syntax errors are collected in `program.errors`.
+ */
+export function parseOpenSCAD(source: string): Program {
+  const { tokens, comments, errors } = tokenize(source);
+  const parser = new Parser(tokens.filter((t) => t.kind !== "invalid"));
+  const statements = parser.program();
+  return {
+    type: "Program",
+    statements,
+    comments,
+    errors: [...errors, ...parser.errors].sort(
+      (a, b) => a.range.start - b.range.start
+    ),
+    range: { start: 0, end: source.length },
+  };
+}
@@ -1,11 +1,45 @@
 /**
  * Splits an OpenSCAD source into a preserved section and export parts.
- * All lines up to (but not including) the first //@export marker are always preserved
- * in each part. Then each part is the preserved section + two newlines + its own export block.
+ * Everything before the first //@export marker is preserved in each part; each
+ * part is then the preserved section followed by its own export block.
  *
- * This version normalizes line endings, uses line-based slicing, splits logic into helper
- * functions, and refines the export regex.
+ *   //@group Frame           parts below are shown in a "Frame" folder
+ *   //@export left_rail      render options may follow the name, e.g.
+ *                            backend=CGAL fn=64 color=#f80 format=3mf
+ *   ...
+ *   //@end                   optional explicit end of the part
+ *   //@endgroup
+ *
+ * Markers and part boundaries come from the parsed syntax tree, so markers
+ * inside strings or block comments are ignored and a statement spanning
+ * several lines (blank ones included) is never cut in half.
  */
+import {
+  walk,
+  type Expression,
+  type Program,
+  type Statement,
+} from "./openscad-ast";
+import type { Comment } from "./openscad-lexer";
+import { parseOpenSCAD } from "./openscad-parser";
+import type { Backend } from "./openscad-protocol";
+import { EXPORT_FORMATS, type ExportFormat } from "./utils/exportFormats";
+import type { OpenSCADDiagnostic } from "./utils/openscadDiagnostics";
+
+/**
+ * Render options from the marker line, e.g.
+ * `// @export Lid backend=CGAL fn=128 color=#f80 format=3mf`.
+ */
+export type PartOptions = {
+  backend?: Backend;
+  /** `$fn` for this part only */
+  fn?: number;
+  /** Display (and 3MF) color; wins over color() in the block */
+  color?: string;
+  /** Download format; ignored when it doesn't fit the part's dimension */
+  format?: ExportFormat;
+};
+
 export type OpenSCADPart = {
   /**
    * The complete OpenSCAD source code with all export blocks removed except for the one
@@ -20,91 +54,387 @@ export type OpenSCADPart = {
    * Whether this part should be exported (i.e. rendered).
    */
   exported: boolean;
+  /**
+   * Names of the enclosing //@group folders, outermost first.
+   */
+  group?: string[];
+  options?: PartOptions;
+  /**
+   * Where the export block starts, in `ownSourceCode` and in the original
+   * source. Lines before `partLine` are the preserved section and keep their
+   * numbers.
+   */
+  blockLines?: { partLine: number; sourceLine: number };
+  /** Problems with the part's markers, at lines of the original source */
+  diagnostics?: OpenSCADDiagnostic[];
 };
 
-interface ExportBlock {
+export type PartDirectiveKind = "export" | "end" | "group" | "endgroup";
+
+/**
+ * A `//@export`, `//@end`, `//@group` or `//@endgroup` line comment.
+ */
+export type PartDirective = {
+  kind: PartDirectiveKind;
+  /** Part name for `export`, folder name for `group` */
   name: string;
-  startLine: number;
-  endLine: number;
+  /** False for `//!@export` */
   exported: boolean;
+  /** Words after the part name on an `export` line (`key=value` options) */
+  args: string[];
+  comment: Comment;
+  /** Offset of the start of the directive's line */
+  lineStart: number;
+};
+
+/** A part's source, from the start of its marker line to its last line */
+export interface ExportBlock {
+  name: string;
+  group: string[];
+  start: number;
+  end: number;
+  exported: boolean;
+  options: PartOptions;
+  statements: Statement[];
+  /** Set when the block's last statement is still open at the next directive */
+  unclosed?: { message: string; line: number };
+}
+
+const EXPORT_REGEX = /^\/\/\s*(!?@export)\b(?:\s+(.*?))?\s*$/;
+const GROUP_REGEX = /^\/\/\s*@group\b\s*(.*?)\s*$/;
+const ENDGROUP_REGEX = /^\/\/\s*@endgroup\s*$/;
+const END_REGEX = /^\/\/\s*@end\s*$/;
+
+const lineStartOf = (source: string, offset: number) =>
+  source.lastIndexOf("\n", offset - 1) + 1;
+
+const lineEndOf = (source: string, offset: number) => {
+  const newline = source.indexOf("\n", offset);
+  return newline === -1 ? source.length : newline;
+};
+
+function matchDirective(
+  text: string
+): Pick<PartDirective, "kind" | "name" | "exported" | "args"> | null {
+  const exportMatch = text.match(EXPORT_REGEX);
+  if (exportMatch) {
+    const words = exportMatch[2] ? exportMatch[2].split(/\s+/) : [];
+    const named = words.length > 0 && !words[0].includes("=");
+    // `// @export My Part` was never a marker (names have no spaces), so
+    // such comments stay comments rather than failing as bad options
+    const args = named ? words.slice(1) : words;
+    if (args.some((arg) => !arg.includes("="))) return null;
+    return {
+      kind: "export",
+      name: named ? words[0] : "",
+      exported: !exportMatch[1].startsWith("!"),
+      args,
+    };
+  }
+  const groupMatch = text.match(GROUP_REGEX);
+  if (groupMatch) {
+    return { kind: "group", name: groupMatch[1], exported: true, args: [] };
+  }
+  if (ENDGROUP_REGEX.test(text)) {
+    return { kind: "endgroup", name: "", exported: true, args: [] };
+  }
+  if (END_REGEX.test(text)) {
+    return { kind: "end", name: "", exported: true, args: [] };
+  }
+  return null;
 }
 
-const EXPORT_REGEX = /^\s*\/\/\s*(!?@export)\b(?:\s+(\S+))?\s*$/;
-const COLOR_REGEX = /color\s*\(\s*(?:"([^"]+)"|'([^']+)'|([^),\s]+))\s*\)/;
+const BACKENDS: Backend[] = ["Manifold", "CGAL"];
+
+// `stl` is short for binary STL
+const FORMAT_ALIASES: Record<string, ExportFormat> = { stl: "binstl" };
 
 /**
- * Parses export blocks from a slice of lines starting at index 0.
- * Assumes the slice begins with an export marker.
+ * Read the `key=value` options of a part marker. Throws on unknown keys and
+ * bad values so typos don't silently render with the defaults.
  */
-function parseExportBlocks(lines: string[]): ExportBlock[] {
-  const blocks: ExportBlock[] = [];
-  let idx = 0;
-  while (idx < lines.length) {
-    const match = lines[idx].match(EXPORT_REGEX);
-    if (match) {
-      const exported = !match[1].startsWith('!');
-      const name = match[2] || `Part${blocks.length + 1}`;
-      if (blocks.some(b => b.name === name)) {
-        throw new Error(`Duplicate part name detected: ${name}`);
+export function parsePartOptions(part: string, args: string[]): PartOptions {
+  const options: PartOptions = {};
+  for (const arg of args) {
+    const eq = arg.indexOf("=");
+    const key = eq === -1 ? arg : arg.slice(0, eq).toLowerCase();
+    const value = eq === -1 ? "" : arg.slice(eq + 1);
+    const bad = (expected: string) =>
+      new Error(`Part "${part}": ${key}=${value} should be ${expected}`);
+    if (eq === -1 || !value) {
+      throw new Error(`Part "${part}": expected key=value but found "${arg}"`);
+    }
+    switch (key) {
+      case "backend": {
+        const backend = BACKENDS.find(
+          (b) => b.toLowerCase() === value.toLowerCase()
+        );
+        if (!backend) throw bad(BACKENDS.join(" or "));
+        options.backend = backend;
+        break;
       }
-      const startLine = idx;
-      let endLine = lines.length;
-      let seenSemicolon = false;
-      for (let j = idx + 1; j < lines.length; j++) {
-        if (EXPORT_REGEX.test(lines[j])) {
-          endLine = j;
-          break;
-        }
-        if (!seenSemicolon && lines[j].includes(';')) {
-          seenSemicolon = true;
-        }
-        if (seenSemicolon && lines[j].trim() === '') {
-          endLine = j;
-          break;
+      case "fn":
+      case "$fn": {
+        const fn = Number(value);
+        if (!Number.isInteger(fn) || fn < 0) throw bad("a whole number");
+        options.fn = fn;
+        break;
+      }
+      case "color":
+        options.color = value;
+        break;
+      case "format": {
+        const format = (FORMAT_ALIASES[value.toLowerCase()] ??
+          value.toLowerCase()) as ExportFormat;
+        if (!(format in EXPORT_FORMATS)) {
+          throw bad(`one of ${Object.keys(EXPORT_FORMATS).join(", ")}`);
         }
+        options.format = format;
+        break;
       }
-      blocks.push({ name, startLine, endLine, exported });
-      idx = endLine;
-    } else {
-      idx++;
+      default:
+        throw new Error(`Part "${part}": unknown option "${key}"`);
+    }
+  }
+  return options;
+}
+
+/**
+ * The part directives that sit on their own line at the top level (not
+ * inside a statement), in source order. Unnamed parts and groups get
+ * numbered names.
+ */
+export function findPartDirectives(
+  source: string,
+  program: Program
+): PartDirective[] {
+  const directives: PartDirective[] = [];
+  let parts = 0;
+  let groups = 0;
+  for (const comment of program.comments) {
+    if (comment.kind !== "line") continue;
+    const match = matchDirective(comment.text);
+    if (!match) continue;
+    const lineStart = lineStartOf(source, comment.range.start);
+    if (source.slice(lineStart, comment.range.start).trim()) continue;
+    // After a syntax error (say an unclosed `{`) the parser's recovery can
+    // stretch a statement over the rest of the file; markers in a broken
+    // statement still count, as they did for the old line scanner
+    const inside = program.statements.some(
+      (s) =>
+        s.range.start < comment.range.start &&
+        comment.range.end < s.range.end &&
+        !program.errors.some(
+          (e) => s.range.start <= e.range.start && e.range.start <= s.range.end
+        )
+    );
+    if (inside) continue;
+    if (match.kind === "export") {
+      parts++;
+      match.name ||= `Part${parts}`;
+    } else if (match.kind === "group") {
+      groups++;
+      match.name ||= `Group${groups}`;
     }
+    directives.push({ ...match, comment, lineStart });
   }
+  return directives;
+}
+
+/**
+ * A part runs from its marker to the next `//@end`. Without one, it ends at
+ * the first blank line between two top-level statements or at the next
+ * directive, whichever comes first. A statement left open (say by a missing
+ * `}`) is cut at the next directive, so the parts after it stay their own.
+ */
+export function parseExportBlocks(
+  source: string,
+  program: Program,
+  directives: PartDirective[]
+): ExportBlock[] {
+  const blocks: ExportBlock[] = [];
+  const group: string[] = [];
+  directives.forEach((directive, i) => {
+    if (directive.kind === "group") {
+      group.push(directive.name);
+      return;
+    }
+    if (directive.kind === "endgroup") {
+      if (!group.length) {
+        throw new Error(
+          `"//@endgroup" on line ${
+            source.slice(0, directive.lineStart).split("\n").length
+          } has no matching "//@group"`
+        );
+      }
+      group.pop();
+      return;
+    }
+    if (directive.kind !== "export") return;
+    if (blocks.some((b) => b.name === directive.name)) {
+      throw new Error(`Duplicate part name detected: ${directive.name}`);
+    }
+
+    const next = directives[i + 1];
+    const limit = next ? next.lineStart : null;
+    const explicitEnd = next?.kind === "end";
+    const statements: Statement[] = [];
+    for (const statement of program.statements) {
+      if (statement.range.start < directive.comment.range.end) continue;
+      if (limit !== null && statement.range.start >= limit) break;
+      const previous = statements[statements.length - 1];
+      if (previous && !explicitEnd) {
+        const gap = source.slice(previous.range.end, statement.range.start);
+        if (/\n[ \t\r]*\n/.test(gap)) break;
+      }
+      statements.push(statement);
+    }
+    const last = statements[statements.length - 1];
+    const lineOf = (offset: number) =>
+      source.slice(0, offset).split("\n").length;
+    let unclosed: ExportBlock["unclosed"];
+    if (limit !== null && last && last.range.end > limit) {
+      let brace: number | undefined;
+      walk(last, (node) => {
+        if (
+          node.type === "Block" &&
+          node.range.start < limit &&
+          node.range.end > limit
+        ) {
+          brace = node.range.start;
+        }
+      });
+      unclosed =
+        brace === undefined
+          ? {
+              message: `Part "${directive.name}": statement is not finished before the next marker`,
+              line: lineOf(last.range.start),
+            }
+          : {
+              message: `Part "${directive.name}": "{" is not closed before the next marker`,
+              line: lineOf(brace),
+            };
+    }
+    let end: number;
+    if (explicitEnd) end = Math.max(directive.lineStart, next.lineStart - 1);
+    else if (last) end = lineEndOf(source, last.range.end);
+    else end = limit === null ? source.length : limit - 1;
+    if (limit !== null)
+      end = Math.min(end, Math.max(directive.lineStart, limit - 1));
+    blocks.push({
+      name: directive.name,
+      group: [...group],
+      start: directive.lineStart,
+      end,
+      exported: directive.exported,
+      options: parsePartOptions(directive.name, directive.args),
+      statements,
+      unclosed,
+    });
+  });
   return blocks;
 }
 
 /**
- * Main function: identify OpenSCAD parts based on export markers.
+ * The lines every part shares: everything before the first part directive, or
+ * the whole source when there is none.
  */
-export function identifyParts(sourceCode: string): Record<string, OpenSCADPart> {
-  // Normalize line endings and split into lines
+export function getPreservedSection(sourceCode: string): string {
   const normalized = sourceCode.replace(/\r\n/g, "\n");
-  const lines = normalized.split("\n");
+  const [first] = findPartDirectives(normalized, parseOpenSCAD(normalized));
+  return first
+    ? normalized.slice(0, Math.max(0, first.lineStart - 1))
+    : normalized;
+}
 
-  // Determine preserved vs export-detection slices
-  const firstExportIdx = lines.findIndex(line => EXPORT_REGEX.test(line));
-  if (firstExportIdx === -1) {
-    return { Full: { ownSourceCode: normalized, exported: false } };
-  }
-  const preservedLines = lines.slice(0, firstExportIdx);
-  const exportDetectionLines = lines.slice(firstExportIdx);
+const toByte = (n: number) => Math.round(Math.min(Math.max(n, 0), 1) * 255);
 
-  // Parse blocks using helper
-  const blocks = parseExportBlocks(exportDetectionLines);
+// `color("red")`, `color(c = "#ff0000")` or `color([1, 0, 0, 0.5])`
+function colorFromArgument(value: Expression): string | undefined {
+  if (value.type === "String") return value.value.trim() || undefined;
+  if (value.type !== "Vector") return undefined;
+  const channels = value.elements.map((e) =>
+    e.type === "Number" ? e.value : NaN
+  );
+  if (channels.length < 3 || channels.length > 4) return undefined;
+  if (!channels.every(Number.isFinite)) return undefined;
+  const [r, g, b, a] = channels;
+  const rgb = `${toByte(r)}, ${toByte(g)}, ${toByte(b)}`;
+  return a === undefined ? `rgb(${rgb})` : `rgba(${rgb}, ${a})`;
+}
 
-  // Build parts map
-  const parts: Record<string, OpenSCADPart> = Object.create(null);
-  for (const block of blocks) {
-    const blockLines = exportDetectionLines.slice(block.startLine, block.endLine);
-    const partLines = [...preservedLines, "", "", ...blockLines];
-    const ownSourceCode = partLines.join("\n");
+function findColor(statements: Statement[]): string | undefined {
+  let color: string | undefined;
+  for (const statement of statements) {
+    walk(statement, (node) => {
+      if (color !== undefined) return false;
+      if (node.type !== "ModuleInstantiation" || node.name.name !== "color") {
+        return;
+      }
+      const arg =
+        node.args.find((a) => a.name?.name === "c") ??
+        node.args.find((a) => !a.name);
+      if (arg) color = colorFromArgument(arg.value);
+    });
+    if (color !== undefined) break;
+  }
+  return color;
+}
 
-    const blockText = blockLines.join("\n");
-    const colorMatch = blockText.match(COLOR_REGEX);
-    const color = colorMatch ? (colorMatch[1] || colorMatch[2] || colorMatch[3]).trim() : undefined;
+/**
+ * Main function: identify OpenSCAD parts based on export markers.
+ */
+export function identifyParts(
+  sourceCode: string
+): Record<string, OpenSCADPart> {
+  const normalized = sourceCode.replace(/\r\n/g, "\n");
+  const program = parseOpenSCAD(normalized);
+  const directives = findPartDirectives(normalized, program);
+  if (!directives.some((d) => d.kind === "export")) {
+    return { Full: { ownSourceCode: normalized, exported: false } };
+  }
+  const firstLine = directives[0].lineStart;
+  const preserved = normalized.slice(0, Math.max(0, firstLine - 1));
 
-    parts[block.name] = { ownSourceCode, exported: block.exported };
+  const parts: Record<string, OpenSCADPart> = Object.create(null);
+  for (const block of parseExportBlocks(normalized, program, directives)) {
+    const blockText = normalized.slice(block.start, block.end);
+    const ownSourceCode = [
+      ...(firstLine > 0 ? [preserved] : []),
+      "",
+      "",
+      blockText,
+    ].join("\n");
+    parts[block.name] = {
+      ownSourceCode,
+      exported: block.exported,
+      blockLines: {
+        partLine: (firstLine > 0 ? preserved.split("\n").length : 0) + 3,
+        sourceLine: normalized.slice(0, block.start).split("\n").length,
+      },
+    };
+    if (block.group.length) parts[block.name].group = block.group;
+    const color = block.options.color ?? findColor(block.statements);
     if (color) parts[block.name].color = color;
+    if (Object.keys(block.options).length) {
+      parts[block.name].options = block.options;
+    }
+    if (block.unclosed) {
+      parts[block.name].diagnostics = [
+        { severity: "error", ...block.unclosed },
+      ];
+    }
   }
 
   return parts;
 }
+
+/**
+ * Map a line of `part.ownSourceCode` (e.g. from an OpenSCAD error) back to
+ * the line in the file the part came from.
+ */
+export function toSourceLine(part: OpenSCADPart, line: number): number {
+  const { blockLines } = part;
+  if (!blockLines || line < blockLines.partLine) return line;
+  return blockLines.sourceLine + (line - blockLines.partLine);
+}
@@ -0,0 +1,157 @@
+/**
+ * Message protocol shared by the main thread and the OpenSCAD render worker.
+ *
+ * Every request carries a `jobId` assigned by the worker pool; every message the
+ * worker posts back echoes it so the pool can route output to the right job even
+ * though the worker itself outlives any single render.
+ */
+import type { OpenSCADPart } from "./openscad-parsing";
+import type { ExportFormat } from "./utils/exportFormats";
+import type { FsSnapshotNode } from "./utils/fsSnapshot";
+import type { OpenSCADDiagnostic } from "./utils/openscadDiagnostics";
+import type { RenderPhase } from "./utils/renderProgress";
+import type { SerializableObject } from "./utils/serialization";
+
+// Manifold:  Ultra Fast
+// Works in most cases perfectly
+// Good for render
+
+// CGAL
+// Very slow, but much more guaranteed to be accurate
+// Good for export
+export type Backend = "CGAL" | "Manifold";
+
+// render:  plain mesh of the part, as exported
+// preview: additionally returns the `#` (highlight) and `%` (background)
+//          subtrees as separate meshes, like OpenSCAD's F5 preview
+export type RenderMode = "render" | "preview";
+
+export interface RenderRequest {
+  command: "render";
+  jobId: number;
+  partName: string;
+  part: OpenSCADPart;
+  backend?: Backend;
+  mode?: RenderMode;
+  /**
+   * Defaults to binary STL. If the part turns out to have the other dimension,
+   * the worker falls back to binary STL (3D) or SVG (2D).
+   */
+  exportFormat?: ExportFormat;
+  fonts?: boolean;
+  mcad?: boolean;
+  path: string;
+  /**
+   * Map of project-relative paths to file contents. .scad files as string, .stl files as Uint8Array.
+   */
+  extraFiles?: Record<string, string | Uint8Array>;
+  /**
+   * Absolute imports (e.g. /SFLibs/foo.scad) to fetch and place in the VM FS.
+   */
+  externalImports?: string[];
+  /**
+   * Variable overrides passed to OpenSCAD as `-D name=value`; values are
+   * OpenSCAD expressions (strings must already be quoted).
+   */
+  defines?: Record<string, string>;
+  /**
+   * Wall-clock budget for the job, enforced by the pool (the worker is busy
+   * inside OpenSCAD and can't watch the clock itself).
+   */
+  timeoutMs?: number;
+  /**
+   * How far the WASM heap may grow while this job runs, enforced in the worker.
+   */
+  maxHeapGrowthBytes?: number;
+}
+
+export type WorkerRequest = RenderRequest;
+
+/**
+ * Parse-only check of one file for the syntax-check worker. Only the file
+ * itself is written to the VM, so includes are not followed.
+ */
+export interface SyntaxCheckRequest {
+  command: "syntax";
+  /** Increasing per request; stale results are dropped by the caller */
+  id: number;
+  /** Project-relative path of the file */
+  path: string;
+  source: string;
+}
+
+export interface SyntaxCheckResult {
+  type: "syntax";
+  id: number;
+  /** Errors located in the checked file */
+  diagnostics: OpenSCADDiagnostic[];
+}
+
+export interface LogMessage {
+  type: "log";
+  jobId: number;
+  partName: string;
+  message: string;
+  /** Printed by OpenSCAD itself, not a status line from the worker */
+  fromOpenSCAD?: boolean;
+}
+
+/**
+ * Sent whenever a job enters a later phase. Phases come partly from the
+ * worker's own steps and partly from OpenSCAD's output, and never go backwards.
+ */
+export interface ProgressMessage {
+  type: "progress";
+  jobId: number;
+  partName: string;
+  phase: RenderPhase;
+}
+
+export interface RenderOutput {
+  data: Uint8Array;
+  /** Format of `data`, which differs from the requested one after a fallback */
+  format: ExportFormat;
+  /** Preview mode only: subtrees marked with `#` */
+  highlight?: Uint8Array;
+  /** Preview mode only: subtrees marked with `%` */
+  background?: Uint8Array;
+}
+
+export interface ResultMessage extends RenderOutput {
+  type: "result";
+  jobId: number;
+  partName: string;
+}
+
+export interface ErrorMessage {
+  type: "error";
+  jobId: number;
+  partName: string;
+  error: SerializableObject;
+}
+
+export interface DebugFsMessage {
+  type: "debugfs";
+  jobId: number;
+  partName: string;
+  snapshot: FsSnapshotNode;
+}
+
+/**
+ * An error or warning OpenSCAD printed while running the job. Lines in the
+ * main file are already mapped back from the part's source to the real file.
+ */
+export interface DiagnosticMessage {
+  type: "diagnostic";
+  jobId: number;
+  partName: string;
+  diagnostic: OpenSCADDiagnostic;
+}
+
+export type WorkerMessage =
+  | LogMessage
+  | ProgressMessage
+  | ResultMessage
+  | ErrorMessage
+  | DebugFsMessage
+  | DiagnosticMessage;
@@ -0,0 +1,257 @@
+/**
+ * Rename a module, function or variable everywhere it's used: in the editor's
+ * file and in every project file that reaches its definition through
+ * `include` and `use`. Library files (absolute paths) are never touched.
+ */
+import type { Monaco } from "@monaco-editor/react";
+import type { IDisposable, languages } from "monaco-editor";
+import type { IndexedFile, SourceIndex } from "./openscad-index";
+import { KEYWORDS, type SourceRange } from "./openscad-lexer";
+import type { OpenSCADLanguageContext } from "./openscad-lang";
+import {
+  findDefinition,
+  findReferences,
+  pathForModel,
+  pathForUri,
+  resolveGlobal,
+  type SourceLocation,
+} from "./openscad-navigation";
+import { referenceAt, type Reference } from "./openscad-scopes";
+
+/** A file changed by a rename */
+export type FileRewrite = {
+  path: string;
+  /** The replaced names, in source order */
+  ranges: SourceRange[];
+  /** Contents of the file after the rename */
+  text: string;
+};
+
+const IDENTIFIER = /^\$?[A-Za-z_]\w*$/;
+
+/**
+ * The name at `offset`, if it can be renamed. Throws with a message for the
+ * user otherwise.
+ */
+async function renameTarget(
+  index: SourceIndex,
+  path: string,
+  text: string,
+  offset: number
+): Promise<{ reference: Reference; definition: SourceLocation }> {
+  const file = index.indexText(path, text);
+  const reference = referenceAt(index.scopesOf(file), offset);
+  if (!reference) {
+    throw new Error("Only modules, functions and variables can be renamed");
+  }
+  const definition = await findDefinition(index, path, text, offset);
+  if (!definition) {
+    throw new Error(`"${reference.name}" is built in or not defined`);
+  }
+  if (definition.file.startsWith("/")) {
+    throw new Error(
+      `"${reference.name}" is defined in ${definition.file}, outside the project`
+    );
+  }
+  return { reference, definition };
+}
+
+function applyRenames(text: string, ranges: SourceRange[], newName: string) {
+  let result = text;
+  for (const { start, end } of [...ranges].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, start) + newName + result.slice(end);
+  }
+  return result;
+}
+
+/**
+ * The files that change when the name at `offset` in `path` (whose contents
+ * are `text`) becomes `newName`. Throws with a message for the user when the
+ * rename isn't possible.
+ */
+export async function planRename(
+  index: SourceIndex,
+  path: string,
+  text: string,
+  offset: number,
+  newName: string
+): Promise<FileRewrite[]> {
+  const { reference, definition } = await renameTarget(
+    index,
+    path,
+    text,
+    offset
+  );
+  if (!IDENTIFIER.test(newName) || KEYWORDS.has(newName)) {
+    throw new Error(`"${newName}" is not a valid name`);
+  }
+  // `$` variables are scoped dynamically, others lexically
+  if (newName.startsWith("$") !== reference.name.startsWith("$")) {
+    throw new Error(
+      reference.name.startsWith("$")
+        ? "Special variables must keep their `$`"
+        : "Only special variables start with `$`"
+    );
+  }
+  if (newName === reference.name) return [];
+
+  const local = reference.binding !== null && !reference.binding.global;
+  let files: IndexedFile[] | undefined;
+  if (!local) {
+    // Files that include the definition aren't reachable from it, so every
+    // project file is searched; the editor's buffer stands in for its file
+    const current = index.indexText(path, text);
+    files = [
+      current,
+      ...(await index.projectFiles()).filter((f) => f.path !== path),
+    ];
+  }
+
+  const locations = await findReferences(
+    index,
+    path,
+    text,
+    offset,
+    true,
+    files
+  );
+  const byFile = new Map<string, SourceRange[]>();
+  for (const { file, range } of locations) {
+    if (file.startsWith("/")) continue;
+    if (!byFile.has(file)) byFile.set(file, []);
+    byFile.get(file)!.push(range);
+  }
+  if (!local) {
+    // The new name mustn't already mean something where the old one is used
+    for (const file of new Set([definition.file, ...byFile.keys()])) {
+      const clash = await resolveGlobal(
+        index,
+        file,
+        newName,
+        reference.namespace
+      );
+      if (clash) {
+        throw new Error(`"${newName}" is already defined in ${clash.file}`);
+      }
+    }
+  }
+
+  const rewrites: FileRewrite[] = [];
+  for (const [file, ranges] of byFile) {
+    const source = file === path ? text : (await index.getFile(file))?.text;
+    if (source === undefined) continue;
+    ranges.sort((a, b) => a.start - b.start);
+    rewrites.push({
+      path: file,
+      ranges,
+      text: applyRenames(source, ranges, newName),
+    });
+  }
+  return rewrites;
+}
+
+export function registerRenameProvider(
+  monaco: Monaco,
+  getContext: () => OpenSCADLanguageContext
+): IDisposable {
+  const noRange = {
+    startLineNumber: 1,
+    startColumn: 1,
+    endLineNumber: 1,
+    endColumn: 1,
+  };
+  const message = (err: unknown) =>
+    err instanceof Error ? err.message : String(err);
+
+  return monaco.languages.registerRenameProvider("openscad", {
+    async resolveRenameLocation(model, position) {
+      const context = getContext();
+      const { index } = context;
+      const filePath = pathForModel(model, context);
+      if (!index || !filePath) {
+        return { range: noRange, text: "", rejectReason: "No project open" };
+      }
+      try {
+        const { reference } = await renameTarget(
+          index,
+          filePath,
+          model.getValue(),
+          model.getOffsetAt(position)
+        );
+        const start = model.getPositionAt(reference.range.start);
+        const end = model.getPositionAt(reference.range.end);
+        return {
+          range: {
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column,
+          },
+          text: reference.name,
+        };
+      } catch (err) {
+        return { range: noRange, text: "", rejectReason: message(err) };
+      }
+    },
+
+    async provideRenameEdits(model, position, newName) {
+      const context = getContext();
+      const { index, applyRewrites } = context;
+      const filePath = pathForModel(model, context);
+      if (!index || !filePath) {
+        return { edits: [], rejectReason: "No project open" };
+      }
+      const versionId = model.getVersionId();
+      let rewrites: FileRewrite[];
+      try {
+        rewrites = await planRename(
+          index,
+          filePath,
+          model.getValue(),
+          model.getOffsetAt(position),
+          newName
+        );
+      } catch (err) {
+        return { edits: [], rejectReason: message(err) };
+      }
+
+      // A peek view's model is only a view of its file, so that file is
+      // written like the others
+      const isPeek = pathForUri(model.uri) !== null;
+      const elsewhere = rewrites.filter((r) => isPeek || r.path !== filePath);
+      if (elsewhere.length) {
+        if (!applyRewrites) {
+          return {
+            edits: [],
+            rejectReason: "Renaming across files needs an open project",
+          };
+        }
+        if (!(await applyRewrites(elsewhere))) {
+          return { edits: [], rejectReason: "Rename cancelled" };
+        }
+      }
+
+      const own = rewrites.find((r) => r.path === filePath);
+      const edits: languages.IWorkspaceTextEdit[] = (own?.ranges ?? []).map(
+        (range) => {
+          const start = model.getPositionAt(range.start);
+          const end = model.getPositionAt(range.end);
+          return {
+            resource: model.uri,
+            versionId,
+            textEdit: {
+              range: {
+                startLineNumber: start.lineNumber,
+                startColumn: start.column,
+                endLineNumber: end.lineNumber,
+                endColumn: end.column,
+              },
+              text: newName,
+            },
+          };
+        }
+      );
+      return { edits };
+    },
+  });
+}
@@ -0,0 +1,286 @@
+/**
+ * Name resolution within one OpenSCAD file: which definition each identifier
+ * refers to, following OpenSCAD's scoping (separate namespaces for modules,
+ * functions and variables; assignments apply to their whole block).
+ */
+import {
+  forEachChild,
+  type Argument,
+  type Expression,
+  type ListElement,
+  type Node,
+  type Parameter,
+  type Program,
+  type Statement,
+} from "./openscad-ast";
+import type { SourceRange } from "./openscad-lexer";
+
+export type Namespace = "module" | "function" | "variable";
+
+export type Binding = {
+  name: string;
+  namespace: Namespace;
+  nameRange: SourceRange;
+  /** Top-level definition, visible to files that include or use this one */
+  global: boolean;
+};
+
+export type Reference = {
+  name: string;
+  namespace: Namespace;
+  range: SourceRange;
+  /**
+   * The definition in this file it resolves to; null when it's defined
+   * elsewhere (an included or used file, or a builtin).
+   */
+  binding: Binding | null;
+  /** The name in the definition itself */
+  isDefinition: boolean;
+};
+
+export type ScopeAnalysis = {
+  bindings: Binding[];
+  /** Every use and definition of a name, in source order */
+  references: Reference[];
+};
+
+// `for` and `let` at statement level bind their named arguments
+const BINDING_MODULES = new Set(["for", "intersection_for", "let"]);
+
+class Scope {
+  private names = new Map<string, Binding>();
+
+  constructor(private parent: Scope | null) {}
+
+  declare(binding: Binding) {
+    this.names.set(`${binding.namespace}:${binding.name}`, binding);
+  }
+
+  lookup(namespace: Namespace, name: string): Binding | null {
+    return (
+      this.names.get(`${namespace}:${name}`) ??
+      this.parent?.lookup(namespace, name) ??
+      null
+    );
+  }
+}
+
+export function analyzeScopes(program: Program): ScopeAnalysis {
+  const bindings: Binding[] = [];
+  const references: Reference[] = [];
+
+  const bind = (
+    scope: Scope,
+    namespace: Namespace,
+    name: { name: string; range: SourceRange },
+    global = false
+  ) => {
+    const binding: Binding = {
+      name: name.name,
+      namespace,
+      nameRange: name.range,
+      global,
+    };
+    scope.declare(binding);
+    bindings.push(binding);
+    references.push({
+      name: name.name,
+      namespace,
+      range: name.range,
+      binding,
+      isDefinition: true,
+    });
+  };
+
+  const refer = (
+    scope: Scope,
+    namespace: Namespace,
+    name: { name: string; range: SourceRange }
+  ) => {
+    // A call of a variable holding a function literal
+    const binding =
+      scope.lookup(namespace, name.name) ??
+      (namespace === "function" ? scope.lookup("variable", name.name) : null);
+    references.push({
+      name: name.name,
+      namespace,
+      range: name.range,
+      binding,
+      isDefinition: false,
+    });
+  };
+
+  // Definitions and assignments apply to the whole block they're in
+  const hoist = (scope: Scope, statements: Statement[], global: boolean) => {
+    for (const statement of statements) {
+      if (statement.type === "ModuleDefinition") {
+        bind(scope, "module", statement.name, global);
+      } else if (statement.type === "FunctionDefinition") {
+        bind(scope, "function", statement.name, global);
+      } else if (statement.type === "Assignment") {
+        bind(scope, "variable", statement.name, global);
+      }
+    }
+  };
+
+  const visitArgs = (scope: Scope, args: Argument[]) => {
+    // Argument names are the callee's parameters, not references
+    for (const arg of args) visitExpression(scope, arg.value);
+  };
+
+  // `let(a = 1, b = a)`: each assignment sees the ones before it
+  const bindSequentially = (scope: Scope, args: Argument[]) => {
+    for (const arg of args) {
+      visitExpression(scope, arg.value);
+      if (arg.name) bind(scope, "variable", arg.name);
+    }
+  };
+
+  const bindParams = (outer: Scope, inner: Scope, params: Parameter[]) => {
+    for (const param of params) {
+      if (param.defaultValue) visitExpression(outer, param.defaultValue);
+      bind(inner, "variable", param.name);
+    }
+  };
+
+  const visitStatements = (scope: Scope, statements: Statement[]) => {
+    for (const statement of statements) visitStatement(scope, statement);
+  };
+
+  const visitStatement = (scope: Scope, statement: Statement) => {
+    switch (statement.type) {
+      case "Include":
+      case "Empty":
+        return;
+      case "Assignment":
+        visitExpression(scope, statement.value);
+        return;
+      case "ModuleDefinition": {
+        const inner = new Scope(scope);
+        bindParams(scope, inner, statement.params);
+        visitStatement(inner, statement.body);
+        return;
+      }
+      case "FunctionDefinition": {
+        const inner = new Scope(scope);
+        bindParams(scope, inner, statement.params);
+        visitExpression(inner, statement.body);
+        return;
+      }
+      case "ModuleInstantiation": {
+        const name = statement.name.name;
+        if (!BINDING_MODULES.has(name)) {
+          refer(scope, "module", statement.name);
+          visitArgs(scope, statement.args);
+          if (statement.child) visitStatement(scope, statement.child);
+          return;
+        }
+        const inner = new Scope(scope);
+        if (name === "let") {
+          bindSequentially(inner, statement.args);
+        } else {
+          visitArgs(scope, statement.args);
+          for (const arg of statement.args) {
+            if (arg.name) bind(inner, "variable", arg.name);
+          }
+        }
+        if (statement.child) visitStatement(inner, statement.child);
+        return;
+      }
+      case "If":
+        visitExpression(scope, statement.condition);
+        visitStatement(scope, statement.consequent);
+        if (statement.alternate) visitStatement(scope, statement.alternate);
+        return;
+      case "Block": {
+        const inner = new Scope(scope);
+        hoist(inner, statement.statements, false);
+        visitStatements(inner, statement.statements);
+        return;
+      }
+    }
+  };
+
+  const visitExpression = (scope: Scope, node: Expression | ListElement) => {
+    switch (node.type) {
+      case "Identifier":
+        refer(scope, "variable", node);
+        return;
+      case "Call":
+        if (node.callee.type === "Identifier") {
+          refer(scope, "function", node.callee);
+        } else {
+          visitExpression(scope, node.callee);
+        }
+        visitArgs(scope, node.args);
+        return;
+      case "Member":
+        visitExpression(scope, node.object);
+        return;
+      case "Let": {
+        const inner = new Scope(scope);
+        bindSequentially(inner, node.assignments);
+        visitExpression(inner, node.body);
+        return;
+      }
+      case "LetElement": {
+        const inner = new Scope(scope);
+        bindSequentially(inner, node.assignments);
+        visitExpression(inner, node.body);
+        return;
+      }
+      case "Assert":
+      case "Echo":
+        visitArgs(scope, node.args);
+        if (node.body) visitExpression(scope, node.body);
+        return;
+      case "FunctionLiteral": {
+        const inner = new Scope(scope);
+        bindParams(scope, inner, node.params);
+        visitExpression(inner, node.body);
+        return;
+      }
+      case "ForElement": {
+        const inner = new Scope(scope);
+        if (node.condition) {
+          // C-style: `for (i = 0; i < n; i = i + 1)`
+          bindSequentially(inner, node.assignments);
+          visitExpression(inner, node.condition);
+          for (const arg of node.update ?? []) {
+            visitExpression(inner, arg.value);
+            if (arg.name) refer(inner, "variable", arg.name);
+          }
+        } else {
+          visitArgs(scope, node.assignments);
+          for (const arg of node.assignments) {
+            if (arg.name) bind(inner, "variable", arg.name);
+          }
+        }
+        visitExpression(inner, node.body);
+        return;
+      }
+      default:
+        forEachChild(node, (child: Node) =>
+          visitExpression(scope, child as Expression | ListElement)
+        );
+    }
+  };
+
+  const root = new Scope(null);
+  hoist(root, program.statements, true);
+  visitStatements(root, program.statements);
+  references.sort((a, b) => a.range.start - b.range.start);
+  return { bindings, references };
+}
+
+/** The use or definition of a name at `offset`, if any */
+export function referenceAt(
+  analysis: ScopeAnalysis,
+  offset: number
+): Reference | null {
+  return (
+    analysis.references.find(
+      (r) => r.range.start <= offset && offset <= r.range.end
+    ) ?? null
+  );
+}
@@ -0,0 +1,98 @@
+import { type FS, type OpenSCAD } from "./openscad";
+import oscadUtil from "./oscadUtil";
+import { toVmProjectPath } from "./utils/importUtils";
+import {
+  parseOpenSCADDiagnostic,
+  type OpenSCADDiagnostic,
+} from "./utils/openscadDiagnostics";
+import type {
+  SyntaxCheckRequest,
+  SyntaxCheckResult,
+} from "./openscad-protocol";
+
+// Output of the check in progress; print/printErr are fixed at creation
+let collected: string[] = [];
+
+const collect = (text: string) => {
+  collected.push(text);
+};
+
+// Exporting to .ast only parses the file: no evaluation and no geometry, so
+// even big models answer in milliseconds. Fonts and MCAD aren't needed. As in
+// the render worker, an instance is never run twice; the next one is set up
+// while the current check runs.
+let instance: Promise<OpenSCAD> | null = null;
+
+const getInstance = () => {
+  instance ??= oscadUtil.createInstance({
+    fonts: false,
+    mcad: false,
+    print: collect,
+    printErr: collect,
+  });
+  return instance;
+};
+
+function writeFileWithDirs(fs: FS, path: string, content: string) {
+  const segments = path.split("/").filter(Boolean);
+  let current = "";
+  for (let i = 0; i < segments.length - 1; i++) {
+    current += "/" + segments[i];
+    try {
+      fs.mkdir(current);
+    } catch {
+      /* already exists */
+    }
+  }
+  fs.writeFile(path, content);
+}
+
+async function check({
+  path,
+  source,
+}: SyntaxCheckRequest): Promise<OpenSCADDiagnostic[]> {
+  const pending = getInstance();
+  instance = null;
+  const openscad = await pending;
+  getInstance();
+  const vmPath = toVmProjectPath(path);
+  const projectPath = vmPath.slice("/@/".length);
+  writeFileWithDirs(openscad.FS as FS, vmPath, source);
+  collected = [];
+  try {
+    // A syntax error is a non-zero exit; its message is in the output
+    openscad.callMain([vmPath, "-o", "/syntax-check.ast"]);
+  } catch {
+    /* crashed; whatever was printed is still reported */
+  }
+  return collected
+    .map((line) => parseOpenSCADDiagnostic(line, vmPath))
+    .filter(
+      (d): d is OpenSCADDiagnostic =>
+        d !== null && d.severity === "error" && d.file === projectPath
+    );
+}
+
+// Checks run one at a time; the caller only ever waits for the latest one
+let queue: Promise<void> = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<SyntaxCheckRequest>) => {
+  const request = event.data;
+  if (request.command !== "syntax") return;
+  queue = queue.then(async () => {
+    let diagnostics: OpenSCADDiagnostic[] = [];
+    try {
+      diagnostics = await check(request);
+    } catch {
+      /* failed to load; the next request has a fresh instance */
+    }
+    (self as DedicatedWorkerGlobalScope).postMessage({
+      type: "syntax",
+      id: request.id,
+      diagnostics,
+    } as SyntaxCheckResult);
+  });
+};
+
+// Warm up so the first check comes back quickly
+getInstance();
@@ -2,6 +2,10 @@ export interface InitOptions {
     noInitialRun: boolean;
     print?: (text: string) => void;
     printErr?: (text: string) => void;
+    instantiateWasm?: (
+        imports: WebAssembly.Imports,
+        receiveInstance: (instance: WebAssembly.Instance) => void
+    ) => object;
 }
 export interface OpenSCAD {
     callMain(args: Array<string>): number;
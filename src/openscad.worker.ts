@@ -10,62 +10,36 @@ import {
   rewriteProjectImportsForVm,
   toVmProjectPath,
 } from "./utils/importUtils";
-import {
-  SerializableObject,
-  toSerializableObject,
-} from "./utils/serialization";
+import { toSerializableObject } from "./utils/serialization";
+import { RenderLimitError } from "./utils/renderLimits";
 import { buildPathTree, formatPathTree } from "./utils/pathTree";
-import { type FsSnapshotNode, FsMirror } from "./utils/fsSnapshot";
-
-// (Optional) Define the interface for an OpenSCAD part if not imported.
-export interface OpenSCADPart {
-  ownSourceCode: string;
-  color?: string;
-  // ... other properties as needed.
-  exported: boolean;
-}
-
-interface RenderRequest {
-  command: "render";
-  partName: string;
-  part: OpenSCADPart;
-  backend?: Backend;
-  fonts?: boolean;
-  mcad?: boolean;
-  path: string;
-  /**
-   * Map of project-relative paths to file contents. .scad files as string, .stl files as Uint8Array.
-   */
-  extraFiles?: Record<string, string | Uint8Array>;
-  /**
-   * Absolute imports (e.g. /SFLibs/foo.scad) to fetch and place in the VM FS.
-   */
-  externalImports?: string[];
-}
-
-interface LogMessage {
-  type: "log";
-  partName: string;
-  message: string;
-}
-
-interface ResultMessage {
-  type: "result";
-  partName: string;
-  stl: Uint8Array;
-}
-
-interface ErrorMessage {
-  type: "error";
-  partName: string;
-  error: SerializableObject;
-}
-
-interface DebugFsMessage {
-  type: "debugfs";
-  partName: string;
-  snapshot: FsSnapshotNode;
-}
+import {
+  isLaterPhase,
+  phaseFromOpenSCADOutput,
+  type RenderPhase,
+} from "./utils/renderProgress";
+import { FsMirror } from "./utils/fsSnapshot";
+import { parseOpenSCADDiagnostic } from "./utils/openscadDiagnostics";
+import { toSourceLine, type OpenSCADPart } from "./openscad-parsing";
+import { extractModifierSubtrees, parseCsg } from "./utils/csgTree";
+import {
+  dimensionFromOpenSCADOutput,
+  displayFormatFor,
+  EXPORT_FORMATS,
+} from "./utils/exportFormats";
+import type { ExportFormat } from "./utils/exportFormats";
+import type {
+  DebugFsMessage,
+  DiagnosticMessage,
+  ErrorMessage,
+  LogMessage,
+  ProgressMessage,
+  RenderOutput,
+  RenderRequest,
+  ResultMessage,
+  WorkerMessage,
+  WorkerRequest,
+} from "./openscad-protocol";
 
 function resolveAbsoluteImportPath(
   currentAbsPath: string,
@@ -168,7 +142,7 @@ function writeFileWithDirs(
     mirror?.mkdir(current);
   }
   // Write text or binary content
-  fs.writeFile(path, content as any);
+  fs.writeFile(path, content);
   const text =
     typeof content === "string"
       ? content
@@ -197,134 +171,402 @@ function addExtraFiles(
   return written;
 }
 
-// Manifold:  Ultra Fast
-// Works in most cases perfectly
-// Good for render
+/**
+ * Preview mode: export the evaluated CSG tree, cut out the `#` and `%`
+ * subtrees and render each set on its own. Failures only cost the overlay,
+ * never the part itself.
+ */
+async function renderPreviewOverlays(
+  /** A fresh instance with the part's inputs written */
+  newRun: () => Promise<OpenSCAD>,
+  /** Input file plus any `-D` overrides */
+  inputArgs: string[],
+  backend: string,
+  jobId: number,
+  log: (message: string) => void
+): Promise<Pick<RenderOutput, "highlight" | "background">> {
+  const overlays: Pick<RenderOutput, "highlight" | "background"> = {};
+  const csgFile = `/part_${jobId}.csg`;
+  log("Exporting CSG tree for preview...");
+  const csgRun = await newRun();
+  if (csgRun.callMain([...inputArgs, "-o", csgFile]) !== 0) {
+    log("Preview: CSG export failed, showing the rendered part only.");
+    return overlays;
+  }
+  const tree = parseCsg(csgRun.FS.readFile(csgFile, { encoding: "utf8" }));
+  const kinds = [
+    ["highlight", "#"],
+    ["background", "%"],
+  ] as const;
+  for (const [kind, modifier] of kinds) {
+    const source = extractModifierSubtrees(tree, modifier);
+    if (!source) continue;
+    const inFile = `/part_${jobId}_${kind}.csg`;
+    const outFile = `/part_${jobId}_${kind}.stl`;
+    const run = await newRun();
+    run.FS.writeFile(inFile, source);
+    log(`Rendering ${kind} (${modifier}) geometry...`);
+    const exitCode = run.callMain([
+      inFile,
+      "--render",
+      `--backend=${backend}`,
+      "--export-format=binstl",
+      "-o",
+      outFile,
+    ]);
+    if (exitCode === 0) {
+      overlays[kind] = run.FS.readFile(outFile, { encoding: "binary" });
+    } else {
+      log(`Preview: ${kind} geometry could not be rendered.`);
+    }
+  }
+  return overlays;
+}
+
+const post = (message: WorkerMessage) => {
+  (self as DedicatedWorkerGlobalScope).postMessage(message);
+};
 
-// CGAL
-// Very slow, but much more guaranteed to be accurate
-// Good for export
-type Backend = "CGAL" | "Manifold";
+// The job whose output the shared print/printErr callbacks forward to.
+let currentJob: {
+  jobId: number;
+  partName: string;
+  phase: RenderPhase | null;
+  /** Dimension of the top level object, once OpenSCAD has reported it */
+  dimension: 2 | 3 | null;
+  /** Project path of the main file, for mapping diagnostics back to it */
+  path: string;
+  part: OpenSCADPart;
+} | null = null;
 
 // A helper to send a log message back to the main thread.
-const sendLog = (partName: string, message: string) => {
-  (self as DedicatedWorkerGlobalScope).postMessage({
-    type: "log",
+const sendLog = (
+  jobId: number,
+  partName: string,
+  message: string,
+  fromOpenSCAD?: boolean
+) => {
+  post({ type: "log", jobId, partName, message, fromOpenSCAD } as LogMessage);
+};
+
+// Report that the current job reached `phase`; repeats and regressions
+// (e.g. OpenSCAD announcing a second compile pass) are dropped.
+const reportPhase = (phase: RenderPhase) => {
+  if (!currentJob || !isLaterPhase(phase, currentJob.phase)) return;
+  currentJob.phase = phase;
+  const { jobId, partName } = currentJob;
+  post({ type: "progress", jobId, partName, phase } as ProgressMessage);
+};
+
+const forwardOutput = (text: string, prefix = "") => {
+  if (!currentJob) return;
+  sendLog(currentJob.jobId, currentJob.partName, prefix + text, true);
+  currentJob.dimension = dimensionFromOpenSCADOutput(text) ?? currentJob.dimension;
+  const phase = phaseFromOpenSCADOutput(text);
+  if (phase) reportPhase(phase);
+};
+
+// Turn OpenSCAD's ERROR/WARNING lines into diagnostics for the editor
+const forwardDiagnostic = (text: string) => {
+  if (!currentJob) return;
+  const { jobId, partName, path, part } = currentJob;
+  const mainVmPath = toVmProjectPath(path);
+  const diagnostic = parseOpenSCADDiagnostic(text, mainVmPath);
+  if (!diagnostic) return;
+  const inMainFile = diagnostic.file === mainVmPath.slice("/@/".length);
+  if (inMainFile && diagnostic.line !== undefined) {
+    diagnostic.line = toSourceLine(part, diagnostic.line);
+  }
+  post({
+    type: "diagnostic",
+    jobId,
     partName,
-    message,
-  } as LogMessage);
+    diagnostic,
+  } as DiagnosticMessage);
 };
 
 const WRITE_VM_DEBUG =
   typeof __WRITE_VM_DEBUG__ !== "undefined" && __WRITE_VM_DEBUG__;
 
-self.onmessage = async (event: MessageEvent<RenderRequest>) => {
-  const data = event.data;
-  if (data.command !== "render") return;
+const WASM_PAGE_BYTES = 64 * 1024;
+
+// Heap budget of the running job. Emscripten swallows exceptions thrown from
+// Memory.grow and just reports an allocation failure, so a violation is
+// recorded here and turned into a RenderLimitError once callMain returns.
+let heapBudget: {
+  limitBytes: number;
+  startBytes: number | null;
+  exceededBytes: number | null;
+} | null = null;
+
+const originalGrow = WebAssembly.Memory.prototype.grow;
+WebAssembly.Memory.prototype.grow = function (
+  this: WebAssembly.Memory,
+  delta: number
+) {
+  if (heapBudget) {
+    const current = this.buffer.byteLength;
+    // No growth has happened yet this job, so this is the starting size
+    heapBudget.startBytes ??= current;
+    const requested = current + delta * WASM_PAGE_BYTES;
+    if (requested - heapBudget.startBytes > heapBudget.limitBytes) {
+      heapBudget.exceededBytes = requested - heapBudget.startBytes;
+      throw new RangeError("Render heap growth limit exceeded");
+    }
+  }
+  return originalGrow.call(this, delta);
+};
+
+const formatMB = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+type PendingInstance = {
+  instance: Promise<OpenSCAD>;
+  fonts: boolean;
+  mcad: boolean;
+};
+
+// Every OpenSCAD run gets an instance of its own. Nothing shows this build's
+// runtime is sound once `callMain` has returned (exit() can leave ABORT and
+// EXITSTATUS set, and OpenSCAD keeps global state between runs), so none is
+// run twice. The compiled WASM module is shared (see oscadUtil), and the next
+// instance is set up ahead of time so a run rarely waits for one.
+let upcoming: PendingInstance | null = null;
+
+function prepareInstance(fonts: boolean, mcad: boolean): PendingInstance {
+  const instance = oscadUtil.createInstance({
+    fonts,
+    mcad,
+    // OpenSCAD reports most progress on stderr, so phases are parsed from both
+    print: (text) => forwardOutput(text),
+    printErr: (text) => {
+      forwardOutput(text, "ERR: ");
+      forwardDiagnostic(text);
+    },
+  });
+  // The run that takes it reports a failure, not an unhandled rejection
+  instance.catch(() => {});
+  return { instance, fonts, mcad };
+}
+
+function takeInstance(fonts: boolean, mcad: boolean): Promise<OpenSCAD> {
+  const taken =
+    upcoming && upcoming.fonts === fonts && upcoming.mcad === mcad
+      ? upcoming
+      : prepareInstance(fonts, mcad);
+  upcoming = prepareInstance(fonts, mcad);
+  return taken.instance;
+}
+
+async function render(data: RenderRequest) {
   const {
+    jobId,
     partName,
     part,
     backend = "Manifold",
+    mode = "render",
+    exportFormat = "binstl",
     fonts = true,
     mcad = true,
     path,
     extraFiles,
     externalImports,
+    defines,
+    maxHeapGrowthBytes,
   } = data; // Default to Manifold if not specified
 
+  const log = (message: string) => sendLog(jobId, partName, message);
+  currentJob = {
+    jobId,
+    partName,
+    phase: null,
+    dimension: null,
+    path,
+    part,
+  };
+  const job = currentJob;
+
   try {
-    sendLog(partName, "Initializing OpenSCAD...");
-    // Load the WASM module. (Assuming your OpenSCAD module returns a promise.)
-    const instance = await oscadUtil.createInstance({
-      fonts,
-      mcad,
-      print: (text) => sendLog(partName, text),
-      printErr: (text) => sendLog(partName, `ERR: ${text}`),
-    });
+    reportPhase("init");
+    log("Initializing OpenSCAD...");
     const mirror = WRITE_VM_DEBUG ? new FsMirror() : undefined;
 
-    const initialExternalImports = new Set<string>(externalImports ?? []);
-    for (const imp of collectAbsoluteImportsFromCode(
-      part.ownSourceCode,
-      undefined
-    )) {
-      initialExternalImports.add(imp);
-    }
-    const externalWritten = await addExternalFiles(
-      instance,
-      Array.from(initialExternalImports),
-      (message) => sendLog(partName, message),
-      mirror
-    );
-
-    sendLog(partName, "OpenSCAD initialized.");
-
-    sendLog(partName, "Writing input file...");
-    const projectWritten = addExtraFiles(
-      instance.FS as FS,
-      extraFiles,
-      mirror
-    );
     const vmMainPath = toVmProjectPath(path);
-    const rewrittenMain = rewriteProjectImportsForVm(
-      part.ownSourceCode,
-      path
-    );
-    writeFileWithDirs(instance.FS as FS, vmMainPath, rewrittenMain, mirror);
 
-    const writtenPaths = [...externalWritten, ...projectWritten, vmMainPath];
+    // Writes the part and everything it reads into `target`
+    const writeInputs = async (target: OpenSCAD) => {
+      const initialExternalImports = new Set<string>(externalImports ?? []);
+      for (const imp of collectAbsoluteImportsFromCode(
+        part.ownSourceCode,
+        undefined
+      )) {
+        initialExternalImports.add(imp);
+      }
+      if (initialExternalImports.size) reportPhase("externals");
+      const externalWritten = await addExternalFiles(
+        target,
+        Array.from(initialExternalImports),
+        log,
+        mirror
+      );
+
+      reportPhase("files");
+      log("Writing input file...");
+      const projectWritten = addExtraFiles(
+        target.FS as FS,
+        extraFiles,
+        mirror
+      );
+      const rewrittenMain = rewriteProjectImportsForVm(
+        part.ownSourceCode,
+        path
+      );
+      writeFileWithDirs(
+        target.FS as FS,
+        vmMainPath,
+        rewrittenMain,
+        mirror
+      );
+      return [...externalWritten, ...projectWritten, vmMainPath];
+    };
+    // A fresh instance for each OpenSCAD run of the job
+    const newRun = async () => {
+      const target = await takeInstance(fonts, mcad);
+      await writeInputs(target);
+      return target;
+    };
+    let instance = await takeInstance(fonts, mcad);
+    log("OpenSCAD initialized.");
+    const writtenPaths = await writeInputs(instance);
     if (writtenPaths.length) {
       const tree = buildPathTree(writtenPaths);
       const treeText = formatPathTree(tree);
-      sendLog(partName, `VM files written:\n${treeText}`);
+      log(`VM files written:\n${treeText}`);
     }
 
-    sendLog(partName, "Input file written.");
+    log("Input file written.");
 
     if (mirror) {
       try {
         const snapshot = mirror.toSnapshot();
-        (self as DedicatedWorkerGlobalScope).postMessage({
+        post({
           type: "debugfs",
+          jobId,
           partName,
           snapshot,
         } as DebugFsMessage);
       } catch (err) {
-        sendLog(partName, `Failed to snapshot VM FS: ${String(err)}`);
+        log(`Failed to snapshot VM FS: ${String(err)}`);
       }
     }
 
-    sendLog(partName, `Performing render with ${backend} backend...`);
-    const args = [
-      vmMainPath,
-      "--viewall",
-      "--autocenter",
-      "--render",
-      `--backend=${backend}`, // Use the specified backend
-      "--export-format=binstl",
-    ];
-    const filename = `part_${partName}.stl`;
-    args.push("-o", filename);
-    instance.callMain(args);
-    sendLog(partName, "Render performed.");
+    reportPhase("compiling");
+    log(`Performing render with ${backend} backend...`);
+    const inputArgs = [vmMainPath];
+    for (const [name, value] of Object.entries(defines ?? {})) {
+      inputArgs.push("-D", `${name}=${value}`);
+    }
+    const exportArgs = (format: ExportFormat) => {
+      const filename = `/part_${jobId}.${EXPORT_FORMATS[format].extension}`;
+      return {
+        filename,
+        args: [
+          ...inputArgs,
+          "--viewall",
+          "--autocenter",
+          "--render",
+          `--backend=${backend}`, // Use the specified backend
+          `--export-format=${format}`,
+          "-o",
+          filename,
+        ],
+      };
+    };
+    let format: ExportFormat = exportFormat;
+    let { filename, args } = exportArgs(format);
+    heapBudget = maxHeapGrowthBytes
+      ? { limitBytes: maxHeapGrowthBytes, startBytes: null, exceededBytes: null }
+      : null;
+    let exitCode = -1;
+    let callError: unknown = null;
+    try {
+      exitCode = instance.callMain(args);
+    } catch (err) {
+      callError = err;
+    }
+    const exceeded = heapBudget?.exceededBytes ?? null;
+    heapBudget = null;
+    if (exceeded !== null && maxHeapGrowthBytes) {
+      throw new RenderLimitError(
+        "memory",
+        `Render of "${partName}" was stopped: WASM heap needed to grow by ${formatMB(
+          exceeded
+        )}, over the ${formatMB(maxHeapGrowthBytes)} limit for the ${backend} backend.`
+      );
+    }
+    if (callError) throw callError;
+    // A 2D part can't be written as STL (or a 3D one as SVG); OpenSCAD says
+    // which it was, so export again in the matching format
+    if (
+      exitCode !== 0 &&
+      job.dimension &&
+      job.dimension !== EXPORT_FORMATS[format].dimension
+    ) {
+      format = displayFormatFor(job.dimension);
+      log(
+        `Top level object is ${job.dimension}D, exporting as ${EXPORT_FORMATS[format].label} instead.`
+      );
+      ({ filename, args } = exportArgs(format));
+      instance = await newRun();
+      exitCode = instance.callMain(args);
+    }
+    if (exitCode !== 0) {
+      // The reason is in OpenSCAD's output, which the log already has
+      throw new Error(`OpenSCAD exited with code ${exitCode}`);
+    }
+    log("Render performed.");
 
-    sendLog(partName, "Reading output...");
+    reportPhase("export");
+    log("Reading output...");
     // Read the output file as a binary Uint8Array.
-    const output = instance.FS.readFile("/" + filename, { encoding: "binary" });
-    sendLog(partName, "Output read.");
+    const output = instance.FS.readFile(filename, { encoding: "binary" });
+    log("Output read.");
+    const overlays =
+      mode === "preview" && EXPORT_FORMATS[format].dimension === 3
+        ? await renderPreviewOverlays(newRun, inputArgs, backend, jobId, log)
+        : {};
     // Post back the final result.
-    (self as DedicatedWorkerGlobalScope).postMessage({
+    post({
       type: "result",
+      jobId,
       partName,
-      stl: output,
+      data: output,
+      format,
+      ...overlays,
     } as ResultMessage);
   } catch (err: unknown) {
-    (self as DedicatedWorkerGlobalScope).postMessage({
+    post({
       type: "error",
+      jobId,
       partName,
       error: toSerializableObject(err, {
         enumerableOnly: false,
       }),
     } as ErrorMessage);
+  } finally {
+    currentJob = null;
   }
+}
+
+// Jobs run one at a time per worker; the pool only dispatches to idle workers,
+// but queue defensively so overlapping requests never share the VM.
+let queue: Promise<void> = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const data = event.data;
+  if (data.command !== "render") return;
+  queue = queue.then(() => render(data));
 };
+
+// Set up an instance as soon as the worker starts so the first render doesn't
+// pay for it.
+upcoming = prepareInstance(true, true);
@@ -1,5 +1,6 @@
 /* eslint-disable no-empty-pattern */
 import OpenSCAD from "./openscad.js";
+import type { OpenSCAD as OpenSCADInstance } from "./openscad";
 
 // // OPTIONAL: add fonts to the FS
 // import { addFonts } from "./openscad.fonts.js";
@@ -7,6 +8,28 @@ import OpenSCAD from "./openscad.js";
 // // OPTIONAL: add MCAD library to the FS
 // import { addMCAD } from "./openscad.mcad.js";
 
+// Compiled once per worker; every instance only instantiates it
+let compiled: Promise<WebAssembly.Module> | null = null;
+
+const compileWasm = () => {
+  if (!compiled) {
+    const pending = fetch("/openscad.wasm")
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load openscad.wasm: ${response.status}`);
+        }
+        return response.arrayBuffer();
+      })
+      .then((bytes) => WebAssembly.compile(bytes));
+    // Let the next instance try again
+    pending.catch(() => {
+      if (compiled === pending) compiled = null;
+    });
+    compiled = pending;
+  }
+  return compiled;
+};
+
 const createInstance = async ({
   fonts = true,
   mcad = true,
@@ -18,12 +41,21 @@ const createInstance = async ({
   print?: (text: string) => void;
   printErr?: (text: string) => void;
 } = {}) => {
-  const instance = await OpenSCAD({
-    noInitialRun: true, // The README example on the openscad-wasm repo shows noInitialRun
-    // Previous testing shows noInitialRun should be true for it to work at all
-    // I don't really understand what this is for
-    print,
-    printErr,
+  const instance = await new Promise<OpenSCADInstance>((resolve, reject) => {
+    OpenSCAD({
+      noInitialRun: true, // The README example on the openscad-wasm repo shows noInitialRun
+      // Previous testing shows noInitialRun should be true for it to work at all
+      // I don't really understand what this is for
+      print,
+      printErr,
+      // Emscripten never settles if instantiation fails, so it rejects here
+      instantiateWasm: (imports, receiveInstance) => {
+        compileWasm()
+          .then((module) => WebAssembly.instantiate(module, imports))
+          .then(receiveInstance, reject);
+        return {};
+      },
+    }).then(resolve, reject);
   });
   if (fonts) {
     const addFonts = (await import("./openscad.fonts.js")).addFonts;
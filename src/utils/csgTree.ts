@@ -0,0 +1,152 @@
+/**
+ * Minimal reader/writer for OpenSCAD's CSG export (`-o model.csg`).
+ *
+ * The CSG file is the evaluated node tree in plain OpenSCAD syntax, with every
+ * transform flattened to `multmatrix` and debug modifiers kept on the node
+ * they were applied to:
+ *
+ *   group() {
+ *     multmatrix([[1, 0, 0, 5], ...]) {
+ *       #cube(size = [1, 1, 1], center = false);
+ *     }
+ *   }
+ *
+ * Preview mode uses it to pull the `#` and `%` subtrees out into files of
+ * their own that can be rendered separately.
+ */
+
+export type CsgModifier = "#" | "%" | "!" | "*";
+
+export type CsgNode = {
+  modifiers: CsgModifier[];
+  /** Everything before the `{` or `;`, e.g. `multmatrix([[...]])` */
+  header: string;
+  /** `null` for leaf statements ending in `;` */
+  children: CsgNode[] | null;
+};
+
+const MODIFIER_CHARS = new Set(["#", "%", "!", "*"]);
+
+/**
+ * Parse CSG text into its top-level statements.
+ */
+export function parseCsg(text: string): CsgNode[] {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  // Read up to the `{` or `;` that ends the header, skipping over strings
+  // (text() and import() arguments can contain either character)
+  const readHeader = (): string => {
+    const start = pos;
+    let depth = 0;
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === '"') {
+        pos++;
+        while (pos < text.length && text[pos] !== '"') {
+          if (text[pos] === "\\") pos++;
+          pos++;
+        }
+      } else if (ch === "(" || ch === "[") {
+        depth++;
+      } else if (ch === ")" || ch === "]") {
+        depth--;
+      } else if (depth === 0 && (ch === "{" || ch === ";")) {
+        break;
+      }
+      pos++;
+    }
+    return text.slice(start, pos).trim();
+  };
+
+  const parseBlock = (): CsgNode[] => {
+    const nodes: CsgNode[] = [];
+    for (;;) {
+      skipWhitespace();
+      if (pos >= text.length) return nodes;
+      if (text[pos] === "}") {
+        pos++;
+        return nodes;
+      }
+      const modifiers: CsgModifier[] = [];
+      while (MODIFIER_CHARS.has(text[pos])) {
+        modifiers.push(text[pos] as CsgModifier);
+        pos++;
+        skipWhitespace();
+      }
+      const header = readHeader();
+      if (text[pos] === "{") {
+        pos++;
+        nodes.push({ modifiers, header, children: parseBlock() });
+      } else {
+        pos++;
+        if (header || modifiers.length) {
+          nodes.push({ modifiers, header, children: null });
+        }
+      }
+    }
+  };
+
+  return parseBlock();
+}
+
+export function serializeCsg(nodes: CsgNode[], indent = ""): string {
+  return nodes
+    .map((node) => {
+      const head = indent + node.modifiers.join("") + node.header;
+      if (!node.children) return `${head};\n`;
+      return `${head} {\n${serializeCsg(node.children, indent + "\t")}${indent}}\n`;
+    })
+    .join("");
+}
+
+const nodeName = (node: CsgNode) => node.header.split("(")[0].trim();
+
+// Nodes that combine their children rather than place them. A highlighted
+// child is shown on its own, so these are dropped instead of wrapped around it.
+const COMBINING_NODES = new Set([
+  "group",
+  "union",
+  "difference",
+  "intersection",
+  "hull",
+  "minkowski",
+  "render",
+]);
+
+/**
+ * Collect every subtree tagged with `modifier`, each wrapped in the
+ * transforms above it so it lands where OpenSCAD's preview would draw it.
+ * Returns `null` when the model has no such subtree.
+ */
+export function extractModifierSubtrees(
+  nodes: CsgNode[],
+  modifier: "#" | "%"
+): string | null {
+  const found: CsgNode[] = [];
+
+  const visit = (node: CsgNode, wrap: (inner: CsgNode) => CsgNode) => {
+    if (node.modifiers.includes(modifier)) {
+      found.push(
+        wrap({
+          ...node,
+          modifiers: node.modifiers.filter((m) => m !== modifier),
+        })
+      );
+      // Nested subtrees with the same modifier are already part of this one
+      return;
+    }
+    if (!node.children) return;
+    const childWrap = COMBINING_NODES.has(nodeName(node))
+      ? wrap
+      : (inner: CsgNode) =>
+          wrap({ modifiers: [], header: node.header, children: [inner] });
+    for (const child of node.children) visit(child, childWrap);
+  };
+
+  for (const node of nodes) visit(node, (inner) => inner);
+  return found.length ? serializeCsg(found) : null;
+}
@@ -0,0 +1,65 @@
+/**
+ * Export formats OpenSCAD can write, keyed by their `--export-format` name.
+ */
+export type ExportFormat =
+  | "binstl"
+  | "asciistl"
+  | "obj"
+  | "off"
+  | "amf"
+  | "3mf"
+  | "dxf"
+  | "svg";
+
+export type ExportFormatInfo = {
+  label: string;
+  extension: string;
+  dimension: 2 | 3;
+};
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  binstl: { label: "STL (binary)", extension: "stl", dimension: 3 },
+  asciistl: { label: "STL (ASCII)", extension: "stl", dimension: 3 },
+  obj: { label: "OBJ", extension: "obj", dimension: 3 },
+  off: { label: "OFF", extension: "off", dimension: 3 },
+  amf: { label: "AMF", extension: "amf", dimension: 3 },
+  "3mf": { label: "3MF", extension: "3mf", dimension: 3 },
+  dxf: { label: "DXF", extension: "dxf", dimension: 2 },
+  svg: { label: "SVG", extension: "svg", dimension: 2 },
+};
+
+export const FORMATS_3D = (Object.keys(EXPORT_FORMATS) as ExportFormat[]).filter(
+  (f) => EXPORT_FORMATS[f].dimension === 3
+);
+export const FORMATS_2D = (Object.keys(EXPORT_FORMATS) as ExportFormat[]).filter(
+  (f) => EXPORT_FORMATS[f].dimension === 2
+);
+
+/**
+ * Format used to display and cache parts: binary STL for 3D, SVG for 2D
+ * (three.js can draw both directly).
+ */
+export function displayFormatFor(dimension: 2 | 3): ExportFormat {
+  return dimension === 2 ? "svg" : "binstl";
+}
+
+// OpenSCAD states the dimension of the top level object after rendering, and
+// complains when it doesn't fit the export format:
+//   "Top level object is a 2D object:"
+//   "Current top level object is not a 3D object."
+const DIMENSION_PATTERNS: [RegExp, 2 | 3][] = [
+  [/Top level object is a 2D object/, 2],
+  [/Top level object is a 3D object/, 3],
+  [/top level object is not a 3D object/i, 2],
+  [/top level object is not a 2D object/i, 3],
+];
+
+/**
+ * Map a line of OpenSCAD output to the dimension it reveals, if any.
+ */
+export function dimensionFromOpenSCADOutput(line: string): 2 | 3 | null {
+  for (const [pattern, dimension] of DIMENSION_PATTERNS) {
+    if (pattern.test(line)) return dimension;
+  }
+  return null;
+}
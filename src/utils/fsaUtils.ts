@@ -2,6 +2,11 @@
 // This module contains helper functions for interacting with the FileSystemAccessAPI,
 // including persisting a directory handle for future use.
 import { emitUiLog } from "./uiLogger";
+import { MAX_RENDER_CACHE_BYTES } from "./persistLimits";
+import type { RenderLimits } from "./renderLimits";
+import type { ExportFormat } from "./exportFormats";
+import type { PartOptions } from "../openscad-parsing";
+import type { OpenSCADDiagnostic } from "./openscadDiagnostics";
 
 export type WorkspaceLayout = {
   fileBrowser: number;
@@ -21,6 +26,14 @@ export type SelectionRange = {
   endColumn: number;
 };
 
+/** A collapsed region of the editor, as Monaco's folding remembers it */
+export type FoldedRegion = {
+  startLineNumber: number;
+  endLineNumber: number;
+  /** Hash of the region's first and last lines; stale folds are dropped */
+  checksum?: number;
+};
+
 export type CameraState = {
   position: [number, number, number];
   fov: number;
@@ -31,8 +44,13 @@ export type CameraState = {
 export type PersistedModelEntry = {
   name: string;
   stl: ArrayBuffer;
+  /** Format of `stl` when it isn't binary STL (2D parts are kept as SVG) */
+  format?: ExportFormat;
   color?: string;
   exported: boolean;
+  /** Enclosing //@group folders, outermost first */
+  group?: string[];
+  options?: PartOptions;
 };
 
 export type PersistedLastRender = {
@@ -42,6 +60,37 @@ export type PersistedLastRender = {
   models: PersistedModelEntry[];
 };
 
+/**
+ * When to start a Manifold render without pressing a button:
+ * never, after saving the active .scad tab, or after a pause in typing.
+ */
+export type AutoRenderMode = "off" | "save" | "typing";
+
+export type RenderCacheEntry = {
+  rootName: string;
+  hash: string;
+  stl: ArrayBuffer;
+  /** Format of `stl` when it isn't binary STL (2D parts are kept as SVG) */
+  format?: ExportFormat;
+  /** What OpenSCAD printed while rendering, replayed when the entry is reused */
+  transcript?: RenderTranscript;
+};
+
+export type RenderTranscript = {
+  log: string[];
+  diagnostics: OpenSCADDiagnostic[];
+};
+
+/**
+ * Size and last use of a cache entry, stored apart from the rendered data so
+ * eviction can scan them without loading every model
+ */
+type RenderCacheMeta = {
+  rootName: string;
+  size: number;
+  lastUsed: number;
+};
+
 export type WorkspaceState = {
   expandedDirs?: string[];
   /** @deprecated Use openTabs + activeTabIndex instead */
@@ -51,8 +100,15 @@ export type WorkspaceState = {
   layout?: WorkspaceLayout | null;
   scrollPositions?: Record<string, number>;
   cursorPositions?: Record<string, { lineNumber: number; column: number }>;
+  foldedRegions?: Record<string, FoldedRegion[]>;
   selections?: Record<string, SelectionRange[]>;
   lastRender?: PersistedLastRender | null;
+  /** Number of parts rendered in parallel; null/absent means automatic */
+  renderConcurrency?: number | null;
+  autoRender?: AutoRenderMode;
+  /** Format .scad files when saving them */
+  formatOnSave?: boolean;
+  renderLimits?: Partial<Record<"Manifold" | "CGAL", Partial<RenderLimits>>>;
 };
 
 const WARN_ONCE_KEYS = new Set<string>();
@@ -312,8 +368,8 @@ export async function createNewFile(
 
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
-    const request = window.indexedDB.open("FileHandleDB", 2);
-    request.onupgradeneeded = () => {
+    const request = window.indexedDB.open("FileHandleDB", 4);
+    request.onupgradeneeded = (event) => {
       const db = request.result;
       if (!db.objectStoreNames.contains("handles")) {
         db.createObjectStore("handles");
@@ -321,6 +377,15 @@ function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains("workspace")) {
         db.createObjectStore("workspace");
       }
+      if (!db.objectStoreNames.contains("renderCache")) {
+        db.createObjectStore("renderCache");
+      } else if (event.oldVersion < 4) {
+        // Entries from before renderCacheMeta existed can't be evicted
+        request.transaction!.objectStore("renderCache").clear();
+      }
+      if (!db.objectStoreNames.contains("renderCacheMeta")) {
+        db.createObjectStore("renderCacheMeta");
+      }
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
@@ -500,6 +565,22 @@ export async function updateWorkspaceCursorPosition(
   await saveWorkspaceState(rootName, next);
 }
 
+export async function updateWorkspaceFoldedRegions(
+  rootName: string,
+  filePath: string,
+  regions: FoldedRegion[]
+): Promise<void> {
+  const prev = await loadWorkspaceState(rootName);
+  const next: WorkspaceState = {
+    ...prev,
+    foldedRegions: {
+      ...(prev.foldedRegions ?? {}),
+      [filePath]: regions,
+    },
+  };
+  await saveWorkspaceState(rootName, next);
+}
+
 export async function updateWorkspaceSelections(
   rootName: string,
   filePath: string,
@@ -593,6 +674,172 @@ export async function clearStoredDirectoryHandle(): Promise<void> {
   });
 }
 
+const renderCacheKey = (rootName: string, hash: string) =>
+  `${rootName}:${hash}`;
+
+/**
+ * Look up a cached render by content hash, scoped by the folder name.
+ */
+export async function getRenderCacheEntry(
+  rootName: string,
+  hash: string
+): Promise<RenderCacheEntry | null> {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(["renderCache", "renderCacheMeta"], "readwrite");
+    const meta = tx.objectStore("renderCacheMeta");
+    const key = renderCacheKey(rootName, hash);
+    const request = tx.objectStore("renderCache").get(key);
+    return await new Promise((resolve, reject) => {
+      let entry: RenderCacheEntry | undefined;
+      tx.oncomplete = () => {
+        db.close();
+        resolve(entry ?? null);
+      };
+      tx.onerror = () => {
+        db.close();
+        reject(new Error("Transaction failed"));
+      };
+      tx.onabort = () => {
+        db.close();
+        reject(new Error("Transaction aborted"));
+      };
+      request.onsuccess = () => {
+        entry = request.result as RenderCacheEntry | undefined;
+        if (!entry) return;
+        // Touch for LRU eviction
+        const metaRequest = meta.get(key);
+        metaRequest.onsuccess = () => {
+          const info = metaRequest.result as RenderCacheMeta | undefined;
+          if (info) meta.put({ ...info, lastUsed: Date.now() }, key);
+        };
+      };
+    });
+  } catch (error) {
+    emitUiLog(
+      "error",
+      `Error reading render cache from IndexedDB: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return null;
+  }
+}
+
+/**
+ * Store a rendered part, then evict least recently used entries of the same
+ * project until the cache fits in MAX_RENDER_CACHE_BYTES.
+ */
+export async function putRenderCacheEntry(
+  rootName: string,
+  hash: string,
+  stl: ArrayBuffer,
+  format?: ExportFormat,
+  transcript?: RenderTranscript
+): Promise<void> {
+  if (stl.byteLength > MAX_RENDER_CACHE_BYTES) return;
+  try {
+    const db = await openDB();
+    const tx = db.transaction(["renderCache", "renderCacheMeta"], "readwrite");
+    const store = tx.objectStore("renderCache");
+    const meta = tx.objectStore("renderCacheMeta");
+    const key = renderCacheKey(rootName, hash);
+    const entry: RenderCacheEntry = {
+      rootName,
+      hash,
+      stl,
+      format,
+      transcript,
+    };
+    const info: RenderCacheMeta = {
+      rootName,
+      size: stl.byteLength,
+      lastUsed: Date.now(),
+    };
+    store.put(entry, key);
+    meta.put(info, key);
+
+    const entries: { key: IDBValidKey; size: number; lastUsed: number }[] = [];
+    const cursorRequest = meta.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        const value = cursor.value as RenderCacheMeta;
+        if (value.rootName === rootName) {
+          entries.push({
+            key: cursor.key,
+            size: value.size,
+            lastUsed: value.lastUsed,
+          });
+        }
+        cursor.continue();
+        return;
+      }
+      let total = entries.reduce((sum, e) => sum + e.size, 0);
+      entries.sort((a, b) => a.lastUsed - b.lastUsed);
+      for (const e of entries) {
+        if (total <= MAX_RENDER_CACHE_BYTES) break;
+        store.delete(e.key);
+        meta.delete(e.key);
+        total -= e.size;
+      }
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      tx.onerror = () => {
+        db.close();
+        reject(new Error("Transaction failed"));
+      };
+    });
+  } catch (error) {
+    emitUiLog(
+      "error",
+      `Error saving render cache to IndexedDB: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+export async function clearRenderCache(rootName: string): Promise<void> {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(["renderCache", "renderCacheMeta"], "readwrite");
+    const store = tx.objectStore("renderCache");
+    const cursorRequest = tx.objectStore("renderCacheMeta").openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if ((cursor.value as RenderCacheMeta).rootName === rootName) {
+        store.delete(cursor.key);
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      tx.onerror = () => {
+        db.close();
+        reject(new Error("Transaction failed"));
+      };
+    });
+  } catch (error) {
+    emitUiLog(
+      "error",
+      `Error clearing render cache from IndexedDB: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
 export async function clearWorkspaceState(rootName: string): Promise<void> {
   try {
     const db = await openDB();
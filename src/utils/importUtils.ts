@@ -1,15 +1,71 @@
+import {
+  walk,
+  type Argument,
+  type Node,
+  type Program,
+} from "../openscad-ast";
+import type { SourceRange } from "../openscad-lexer";
+import { parseOpenSCAD } from "../openscad-parser";
+
+export type ImportReference = {
+  /** `include <...>`, `use <...>` or `import("...")` */
+  kind: "include" | "use" | "import";
+  path: string;
+  /** Range of the path as written, delimiters included */
+  range: SourceRange;
+};
+
+const STL_PATH_REGEX = /\.stl$/i;
+
+// Arguments of an `import(...)` module instantiation or function call
+function importArguments(node: Node): Argument[] | null {
+  if (node.type === "ModuleInstantiation" && node.name.name === "import") {
+    return node.args;
+  }
+  if (
+    node.type === "Call" &&
+    node.callee.type === "Identifier" &&
+    node.callee.name === "import"
+  ) {
+    return node.args;
+  }
+  return null;
+}
+
+/**
+ * Every include/use and every `import("...")` with a literal file name in
+ * `program`. Imports in comments and strings are not part of the tree, so they
+ * are never reported.
+ */
+export function findImportReferences(program: Program): ImportReference[] {
+  const refs: ImportReference[] = [];
+  walk(program, (node) => {
+    if (node.type === "Include") {
+      refs.push({ kind: node.kind, path: node.path, range: node.pathRange });
+      return;
+    }
+    const args = importArguments(node);
+    if (!args) return;
+    const file =
+      args.find((a) => a.name?.name === "file") ?? args.find((a) => !a.name);
+    if (file?.value.type === "String") {
+      refs.push({
+        kind: "import",
+        path: file.value.value,
+        range: file.value.range,
+      });
+    }
+  });
+  return refs;
+}
+
 /**
  * Extracts OpenSCAD include/use imports of other .scad files.
  */
 export function extractImports(code: string): string[] {
-  const regex = /(include|use)\s*<([^>]+)>/g;
-  const imports: string[] = [];
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(code)) !== null) {
-    const imp = match[2];
-    imports.push(imp);
-  }
-  return imports;
+  return findImportReferences(parseOpenSCAD(code))
+    .filter((ref) => ref.kind !== "import")
+    .map((ref) => ref.path);
 }
 
 export function normalizePathParts(parts: string[]): string {
@@ -50,14 +106,9 @@ export function resolveImportPath(
  * Extracts STL file imports via import("*.stl") calls in OpenSCAD code.
  */
 export function extractStlImports(code: string): string[] {
-  const regex = /import\s*\(\s*["']([^"']+\.stl)["']\s*\)/g;
-  const imports: string[] = [];
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(code)) !== null) {
-    const imp = match[1];
-    imports.push(imp);
-  }
-  return imports;
+  return findImportReferences(parseOpenSCAD(code))
+    .filter((ref) => ref.kind === "import" && STL_PATH_REGEX.test(ref.path))
+    .map((ref) => ref.path);
 }
 
 export function toVmProjectPath(relPath: string): string {
@@ -85,6 +136,9 @@ export function resolveProjectImportPathForVm(
   return normalized ? "/@/" + normalized : "/@";
 }
 
+const quoteScadString = (text: string) =>
+  `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
 export function rewriteProjectImportsForVm(
   code: string,
   currentRelPath: string
@@ -92,21 +146,19 @@ export function rewriteProjectImportsForVm(
   const rewritePath = (imp: string) =>
     resolveProjectImportPathForVm(currentRelPath, imp) ?? imp;
 
-  const includeUseRegex = /(include|use)\s*<([^>]+)>/g;
-  const stlImportRegex = /import\s*\(\s*["']([^"']+\.stl)["']\s*\)/g;
-
-  let out = code.replace(includeUseRegex, (match, kw, imp) => {
-    const rewritten = rewritePath(imp);
-    if (!rewritten || rewritten === imp) return match;
-    return `${kw} <${rewritten}>`;
-  });
-
-  out = out.replace(stlImportRegex, (match, imp) => {
-    const rewritten = rewritePath(imp);
-    if (!rewritten || rewritten === imp) return match;
-    return match.replace(imp, rewritten);
-  });
-
+  const refs = findImportReferences(parseOpenSCAD(code)).filter(
+    (ref) => ref.kind !== "import" || STL_PATH_REGEX.test(ref.path)
+  );
+  // Splice from the end so earlier ranges stay valid
+  let out = code;
+  for (const ref of refs.sort((a, b) => b.range.start - a.range.start)) {
+    const rewritten = rewritePath(ref.path);
+    if (!rewritten || rewritten === ref.path) continue;
+    const replacement =
+      ref.kind === "import" ? quoteScadString(rewritten) : `<${rewritten}>`;
+    out =
+      out.slice(0, ref.range.start) + replacement + out.slice(ref.range.end);
+  }
   return out;
 }
 
@@ -140,9 +192,11 @@ export async function collectImports(
   const text = await file.text();
   const result: Record<string, string | Uint8Array> = {};
 
+  const refs = findImportReferences(parseOpenSCAD(text));
+
   // Handle .scad include/use imports
-  const imports = extractImports(text);
-  for (const imp of imports) {
+  const imports = refs.filter((ref) => ref.kind !== "import");
+  for (const { path: imp } of imports) {
     if (imp.startsWith("/")) {
       external.add(normalizeAbsolutePath(imp));
       continue;
@@ -164,8 +218,10 @@ export async function collectImports(
   }
 
   // Handle .stl binary imports via import("*.stl")
-  const stlImps = extractStlImports(text);
-  for (const imp of stlImps) {
+  const stlImps = refs.filter(
+    (ref) => ref.kind === "import" && STL_PATH_REGEX.test(ref.path)
+  );
+  for (const { path: imp } of stlImps) {
     if (imp.startsWith("/")) {
       external.add(normalizeAbsolutePath(imp));
       continue;
@@ -0,0 +1,81 @@
+/**
+ * Errors and warnings from OpenSCAD's console output, e.g.
+ *
+ *   ERROR: Parser error in file "main.scad", line 42: syntax error
+ *   WARNING: Ignoring unknown variable 'x' in file lib/util.scad, line 7
+ *   TRACE: called by 'part' in file "main.scad", line 12
+ *
+ * OpenSCAD prints file names relative to the directory of the main file.
+ */
+import { normalizeAbsolutePath } from "./importUtils";
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export type OpenSCADDiagnostic = {
+  severity: DiagnosticSeverity;
+  /** The message with the location taken out */
+  message: string;
+  /**
+   * Project-relative path, or an absolute path for files outside the project
+   * (e.g. /SFLibs/...). Missing when OpenSCAD gave no location.
+   */
+  file?: string;
+  /** 1-based */
+  line?: number;
+};
+
+const SEVERITIES: Record<string, DiagnosticSeverity> = {
+  ERROR: "error",
+  WARNING: "warning",
+  DEPRECATED: "warning",
+  "FONT-WARNING": "warning",
+  TRACE: "info",
+};
+
+const PREFIX_REGEX = /^(ERROR|WARNING|DEPRECATED|FONT-WARNING|TRACE):\s*(.*)$/;
+const LOCATION_REGEX = /,?\s*in file\s+"?([^",]+?)"?\s*,\s*line\s+(\d+)/;
+
+// VM paths under /@/ are project files; everything else stays absolute
+function toProjectPath(file: string, mainVmPath: string): string {
+  const dir = mainVmPath.split("/").slice(0, -1).join("/");
+  const absolute = normalizeAbsolutePath(
+    file.startsWith("/") ? file : `${dir}/${file}`
+  );
+  return absolute.startsWith("/@/") ? absolute.slice(3) : absolute;
+}
+
+/**
+ * Turn one line of OpenSCAD output into a diagnostic, or null when it isn't
+ * an error, warning or trace.
+ */
+export function parseOpenSCADDiagnostic(
+  text: string,
+  mainVmPath: string
+): OpenSCADDiagnostic | null {
+  const prefix = text.trim().match(PREFIX_REGEX);
+  if (!prefix) return null;
+  const severity = SEVERITIES[prefix[1]];
+  const body = prefix[2];
+  const location = body.match(LOCATION_REGEX);
+  if (!location) return { severity, message: body };
+  const message = (
+    body.slice(0, location.index) +
+    body.slice(location.index! + location[0].length)
+  )
+    .replace(/\s+:/, ":")
+    .replace(/[\s.:]+$/, "")
+    .trim();
+  return {
+    severity,
+    message: message || body,
+    file: toProjectPath(location[1], mainVmPath),
+    line: parseInt(location[2], 10),
+  };
+}
+
+/**
+ * Key for dropping repeats: every part of a file shares its preserved
+ * section, so the same problem is reported once per part.
+ */
+export const diagnosticKey = (d: OpenSCADDiagnostic) =>
+  `${d.severity}|${d.file ?? ""}|${d.line ?? ""}|${d.message}`;
@@ -3,3 +3,9 @@
  * If total STL data exceeds this, no model/camera/render state is persisted.
  */
 export const MAX_MODEL_PERSIST_BYTES = 100 * 1024 * 1024; // 100 MB
+
+/**
+ * Size limit for the per-project render cache in IndexedDB.
+ * Least recently used entries are evicted once the cache grows past this.
+ */
+export const MAX_RENDER_CACHE_BYTES = 200 * 1024 * 1024; // 200 MB
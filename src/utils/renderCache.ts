@@ -0,0 +1,79 @@
+/**
+ * Content hashing for the incremental render cache.
+ *
+ * A part is re-rendered only when something that can change its geometry
+ * changes: its own source (which includes the preserved preamble), the
+ * backend, the render mode, Customizer overrides, or any file it can reach
+ * through include/use/import.
+ */
+import type { Backend, RenderMode } from "../openscad-protocol";
+
+// Bump when the shape of the inputs or the worker output changes so stale
+// entries from older builds are never reused.
+const CACHE_KEY_VERSION = 2;
+
+export type RenderCacheInputs = {
+  source: string;
+  backend: Backend;
+  mode: RenderMode;
+  /** Customizer `-D` overrides; absent when the defaults are used */
+  defines?: Record<string, string>;
+  /** Digest of every collected project file plus external import paths */
+  filesDigest: string;
+};
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  return toHex(await crypto.subtle.digest("SHA-256", bytes));
+}
+
+/**
+ * JSON with object keys sorted so equal inputs always hash the same.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash the files gathered by `collectImports` once per render so every part
+ * can share the result.
+ */
+export async function digestRenderFiles(
+  files: Record<string, string | Uint8Array>,
+  externalImports: string[]
+): Promise<string> {
+  const paths = Object.keys(files).sort();
+  const fileHashes: [string, string][] = [];
+  for (const path of paths) {
+    fileHashes.push([path, await sha256Hex(files[path])]);
+  }
+  return sha256Hex(
+    stableStringify({
+      files: fileHashes,
+      externalImports: [...externalImports].sort(),
+    })
+  );
+}
+
+export async function computeRenderCacheKey(
+  inputs: RenderCacheInputs
+): Promise<string> {
+  return sha256Hex(stableStringify({ v: CACHE_KEY_VERSION, ...inputs }));
+}
@@ -0,0 +1,70 @@
+import type { Backend } from "../openscad-protocol";
+
+export type RenderLimitKind = "timeout" | "memory";
+
+/**
+ * Watchdog limits for a single part render. `null` disables a limit.
+ */
+export type RenderLimits = {
+  timeoutSeconds: number | null;
+  /** How far the WASM heap may grow during one render */
+  maxHeapGrowthMB: number | null;
+};
+
+export type BackendRenderLimits = Record<Backend, RenderLimits>;
+
+// CGAL is routinely an order of magnitude slower than Manifold
+export const DEFAULT_RENDER_LIMITS: BackendRenderLimits = {
+  Manifold: { timeoutSeconds: 120, maxHeapGrowthMB: 2048 },
+  CGAL: { timeoutSeconds: 900, maxHeapGrowthMB: 2048 },
+};
+
+const positiveOrNull = (value: unknown, fallback: number | null) => {
+  if (value === null) return null;
+  if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+    return value;
+  }
+  return fallback;
+};
+
+/**
+ * Fill in defaults for anything missing or invalid in persisted limits.
+ */
+export function resolveRenderLimits(
+  saved?: Partial<Record<Backend, Partial<RenderLimits>>> | null
+): BackendRenderLimits {
+  const resolve = (backend: Backend): RenderLimits => ({
+    timeoutSeconds: positiveOrNull(
+      saved?.[backend]?.timeoutSeconds,
+      DEFAULT_RENDER_LIMITS[backend].timeoutSeconds
+    ),
+    maxHeapGrowthMB: positiveOrNull(
+      saved?.[backend]?.maxHeapGrowthMB,
+      DEFAULT_RENDER_LIMITS[backend].maxHeapGrowthMB
+    ),
+  });
+  return { Manifold: resolve("Manifold"), CGAL: resolve("CGAL") };
+}
+
+/**
+ * Raised when a render hits its time or memory limit. Serialized into the
+ * regular worker `ErrorMessage`, so `limit` survives the trip to the main thread.
+ */
+export class RenderLimitError extends Error {
+  limit: RenderLimitKind;
+
+  constructor(limit: RenderLimitKind, message: string) {
+    super(message);
+    this.name = "RenderLimitError";
+    this.limit = limit;
+  }
+}
+
+/**
+ * Recognize a (possibly serialized) RenderLimitError.
+ */
+export function getRenderLimitKind(error: unknown): RenderLimitKind | null {
+  if (!error || typeof error !== "object") return null;
+  const limit = (error as { limit?: unknown }).limit;
+  return limit === "timeout" || limit === "memory" ? limit : null;
+}
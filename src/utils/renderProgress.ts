@@ -0,0 +1,71 @@
+/**
+ * Phases of a single part render, in the order they happen.
+ */
+export const RENDER_PHASES = [
+  "init",
+  "externals",
+  "files",
+  "compiling",
+  "evaluating",
+  "export",
+] as const;
+
+export type RenderPhase = (typeof RENDER_PHASES)[number];
+
+export const RENDER_PHASE_LABELS: Record<RenderPhase, string> = {
+  init: "initializing",
+  externals: "fetching externals",
+  files: "writing VM files",
+  compiling: "compiling",
+  evaluating: "evaluating",
+  export: "exporting",
+};
+
+/**
+ * Share of the bar a part has filled once it reaches `phase`. Evaluation is
+ * where nearly all the time goes, so it gets the widest slice.
+ */
+const PHASE_START: Record<RenderPhase, number> = {
+  init: 0,
+  externals: 0.05,
+  files: 0.15,
+  compiling: 0.2,
+  evaluating: 0.3,
+  export: 0.95,
+};
+
+export function renderPhaseFraction(phase: RenderPhase): number {
+  return PHASE_START[phase];
+}
+
+export function isLaterPhase(next: RenderPhase, current: RenderPhase | null) {
+  return (
+    current === null ||
+    RENDER_PHASES.indexOf(next) > RENDER_PHASES.indexOf(current)
+  );
+}
+
+// Lines OpenSCAD prints as it moves between stages, e.g.
+//   "Parsing design (AST generation)..."
+//   "Compiling design (CSG Tree generation)..."
+//   "Rendering Polygon Mesh using Manifold..."
+//   "Total rendering time: 0:00:00.123"
+const OUTPUT_PHASES: [RegExp, RenderPhase][] = [
+  [/^Parsing design\b/, "compiling"],
+  [/^Compiling design\b/, "compiling"],
+  [/^Rendering Polygon Mesh\b/, "evaluating"],
+  [/^(CGAL|Manifold) (Cache|Polyhedrons)\b/, "evaluating"],
+  [/^Total rendering time\b/, "export"],
+  [/^Top level object is a\b/, "export"],
+];
+
+/**
+ * Map a line of OpenSCAD stdout/stderr to the phase it announces, if any.
+ */
+export function phaseFromOpenSCADOutput(line: string): RenderPhase | null {
+  const text = line.trim();
+  for (const [pattern, phase] of OUTPUT_PHASES) {
+    if (pattern.test(text)) return phase;
+  }
+  return null;
+}
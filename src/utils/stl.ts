@@ -0,0 +1,47 @@
+/**
+ * Indexed triangle mesh, as needed by formats that share vertices between
+ * faces (3MF, OBJ, ...).
+ */
+export type IndexedMesh = {
+  /** x, y, z triples */
+  vertices: number[];
+  /** Vertex index triples, counter-clockwise seen from outside */
+  triangles: number[];
+};
+
+/**
+ * Read a binary STL (as produced by OpenSCAD's `binstl` export) into an
+ * indexed mesh, merging vertices with identical coordinates.
+ */
+export function parseBinaryStl(stl: Uint8Array): IndexedMesh {
+  const view = new DataView(stl.buffer, stl.byteOffset, stl.byteLength);
+  if (stl.byteLength < 84) return { vertices: [], triangles: [] };
+  const count = view.getUint32(80, true);
+  if (84 + count * 50 > stl.byteLength) {
+    throw new Error("STL data is truncated or not binary STL");
+  }
+
+  const vertices: number[] = [];
+  const triangles: number[] = [];
+  const indexOf = new Map<string, number>();
+
+  for (let i = 0; i < count; i++) {
+    // Skip the 12-byte facet normal; it is implied by the winding order
+    const facet = 84 + i * 50 + 12;
+    for (let v = 0; v < 3; v++) {
+      const at = facet + v * 12;
+      const x = view.getFloat32(at, true);
+      const y = view.getFloat32(at + 4, true);
+      const z = view.getFloat32(at + 8, true);
+      const key = `${x},${y},${z}`;
+      let index = indexOf.get(key);
+      if (index === undefined) {
+        index = vertices.length / 3;
+        indexOf.set(key, index);
+        vertices.push(x, y, z);
+      }
+      triangles.push(index);
+    }
+  }
+  return { vertices, triangles };
+}
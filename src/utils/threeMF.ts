@@ -0,0 +1,107 @@
+/**
+ * 3MF writer for multi-part assemblies.
+ *
+ * Every part becomes a named `<object>` with its own `<base>` material, so
+ * slicers such as PrusaSlicer and Bambu Studio import the whole assembly in
+ * one step with part names and colors intact.
+ */
+import { parseBinaryStl } from "./stl";
+import { createZip } from "./zip";
+
+export type ThreeMFPart = {
+  name: string;
+  /** Binary STL */
+  stl: Uint8Array;
+  /** `#RRGGBB` or `#RRGGBBAA` */
+  color?: string;
+};
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+// Parts without a color still need a material once any part has one
+const DEFAULT_COLOR = "#FFFFFFFF";
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Plain decimal notation; 3MF doesn't allow exponents
+const formatNumber = (n: number) => n.toFixed(6).replace(/\.?0+$/, "");
+
+function buildModelXml(parts: ThreeMFPart[]): string {
+  const useMaterials = parts.some((p) => p.color);
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">`,
+    `  <resources>`,
+  ];
+  if (useMaterials) {
+    lines.push(`    <basematerials id="1">`);
+    for (const part of parts) {
+      lines.push(
+        `      <base name="${escapeXml(part.name)}" displaycolor="${
+          part.color ?? DEFAULT_COLOR
+        }"/>`
+      );
+    }
+    lines.push(`    </basematerials>`);
+  }
+
+  parts.forEach((part, i) => {
+    const id = i + 2;
+    const { vertices, triangles } = parseBinaryStl(part.stl);
+    const material = useMaterials ? ` pid="1" pindex="${i}"` : "";
+    lines.push(
+      `    <object id="${id}" type="model" name="${escapeXml(part.name)}"${material}>`,
+      `      <mesh>`,
+      `        <vertices>`
+    );
+    for (let v = 0; v < vertices.length; v += 3) {
+      lines.push(
+        `          <vertex x="${formatNumber(vertices[v])}" y="${formatNumber(
+          vertices[v + 1]
+        )}" z="${formatNumber(vertices[v + 2])}"/>`
+      );
+    }
+    lines.push(`        </vertices>`, `        <triangles>`);
+    for (let t = 0; t < triangles.length; t += 3) {
+      const [a, b, c] = triangles.slice(t, t + 3);
+      // Slivers collapsed by vertex merging are invalid in 3MF
+      if (a === b || b === c || a === c) continue;
+      lines.push(
+        `          <triangle v1="${a}" v2="${b}" v3="${c}"/>`
+      );
+    }
+    lines.push(`        </triangles>`, `      </mesh>`, `    </object>`);
+  });
+
+  lines.push(`  </resources>`, `  <build>`);
+  parts.forEach((_, i) => lines.push(`    <item objectid="${i + 2}"/>`));
+  lines.push(`  </build>`, `</model>`, ``);
+  return lines.join("\n");
+}
+
+/**
+ * Pack parts into a 3MF archive.
+ */
+export function createThreeMF(parts: ThreeMFPart[]): Uint8Array {
+  return createZip([
+    { path: "[Content_Types].xml", data: CONTENT_TYPES },
+    { path: "_rels/.rels", data: RELS },
+    { path: "3D/3dmodel.model", data: buildModelXml(parts) },
+  ]);
+}